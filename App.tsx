@@ -1,17 +1,44 @@
-import React, { useRef } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import { GameScene } from './components/Scene';
-import UI, { Instructions, DebugRecorderUI } from './components/UI';
-import { BuildingType, BuildingData, SavedBlueprint } from './types';
+import UI, { Instructions, DebugRecorderUI, HistoryPanel, SelectionPanel, SelectionBoxOverlay, PlacementPanel, BillOfMaterialsPanel, RoomsPanel, SnapCycleIndicator, TerrainPanel, BuildRulesPanel, PlaybackPanel, SnapDiffPanel } from './components/UI';
+import { BuildingType, BuildingData, SavedBlueprint, SavedPrefab, UNIT_SIZE } from './types';
+import { BLUEPRINT_VERSION, parseBlueprint, formatBlueprintErrors, validateBuildings } from './utils/blueprintSchema';
+import { computeBillOfMaterials, downloadBillOfMaterials } from './utils/billOfMaterials';
+import { analyzeRooms } from './utils/rooms';
+import {
+  DEFAULT_IMAGE_MAX_HEIGHT,
+  PILLAR_REPORT_MIN,
+  findFoundationPillars,
+  getTerrainRange,
+  parseHeightmapJson,
+  readHeightmapImage,
+} from './utils/terrain';
+import { computeBuildBudget } from './utils/buildRules';
+import { BUILD_RULES_PRESETS } from './data/buildRules';
+import { createBlueprintShareUrl, decodeBlueprintCode, getBlueprintCodeFromHash } from './utils/blueprintCode';
 import { useDebugRecorder } from './hooks/useDebugRecorder';
+import { useDebugPlayback, PLAYBACK_SPEEDS } from './hooks/useDebugPlayback';
+import { parseDebugRecording } from './utils/debugPlayback';
+import { useAutosave } from './hooks/useAutosave';
+import { BlueprintManager } from './components/BlueprintManager';
 import { useGameStore } from './store/gameStore';
-
-const BLUEPRINT_VERSION = 1;
+import { downloadPrefab, parsePrefab } from './utils/prefabStorage';
 
 export default function App() {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const prefabInputRef = useRef<HTMLInputElement>(null);
+  const terrainInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  // Whether the blueprint file input replaces the layout or merges into it
+  const importModeRef = useRef<'replace' | 'merge'>('replace');
 
-  // Debug recorder
+  // Debug recorder, and playback of saved recordings
   const debugRecorder = useDebugRecorder();
+  const debugPlayback = useDebugPlayback();
+
+  // Blueprint library, crash recovery and autosave.
+  // A shared #bp= link takes priority over restoring the previous session.
+  useAutosave(getBlueprintCodeFromHash(window.location.hash) !== null);
 
   // Store access
   const {
@@ -21,6 +48,14 @@ export default function App() {
     setActiveType,
     showWireframe,
     toggleWireframe,
+    showBillOfMaterials,
+    toggleBillOfMaterials,
+    showRooms,
+    toggleRooms,
+    showStability,
+    toggleStability,
+    cascadeRemoval,
+    toggleCascadeRemoval,
     showSocketDebug,
     toggleSocketDebug,
     is2DMode,
@@ -31,60 +66,184 @@ export default function App() {
     toggleManualHeight,
     activeBuildingSet,
     setActiveBuildingSet,
+    past,
+    future,
+    undo,
+    redo,
+    interactionMode,
+    setInteractionMode,
+    selectedIds,
+    selectionRect,
+    selectionCollisions,
+    deleteSelected,
+    duplicateSelected,
+    rotateSelected,
+    moveSelected,
+    clipboard,
+    copySelected,
+    cutSelected,
+    startPaste,
+    placementGroup,
+    placementCollisions,
+    snapCycle,
+    terrain,
+    setTerrain,
+    buildRules,
+    setBuildRules,
+    showBuildRules,
+    toggleBuildRules,
+    cancelPlacement,
+    startMergeImport,
+    prefabs,
+    activePrefabId,
+    savePrefabFromSelection,
+    addPrefab,
+    deletePrefab,
+    pickPrefab,
+    blueprints,
+    activeBlueprintId,
+    showBlueprintManager,
+    setShowBlueprintManager,
+    saveBlueprintAs,
+    overwriteBlueprint,
+    renameBlueprint,
+    duplicateBlueprint,
+    deleteBlueprint,
+    loadBlueprint,
   } = useGameStore();
 
-  // Quick save to localStorage
-  const handleSave = () => {
+  // Bill of materials for the current layout (only while the panel is open)
+  const billOfMaterials = useMemo(
+    () => (showBillOfMaterials ? computeBillOfMaterials(buildings, activeBuildingSet) : null),
+    [showBillOfMaterials, buildings, activeBuildingSet]
+  );
+  const roomAnalysis = useMemo(() => (showRooms ? analyzeRooms(buildings) : null), [showRooms, buildings]);
+  const terrainRange = useMemo(() => (terrain ? getTerrainRange(terrain) : null), [terrain]);
+  const pillars = useMemo(
+    () => (terrain ? findFoundationPillars(terrain, buildings, PILLAR_REPORT_MIN) : []),
+    [terrain, buildings]
+  );
+  const buildBudget = useMemo(
+    () => (showBuildRules ? computeBuildBudget(buildings, buildRules) : []),
+    [showBuildRules, buildings, buildRules]
+  );
+  const activeBlueprintName = blueprints.find((b) => b.id === activeBlueprintId)?.name;
+
+  // Undo/redo hotkeys (Ctrl+Z, Ctrl+Shift+Z / Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Load a blueprint shared via a #bp= link (on startup and when the hash changes)
+  useEffect(() => {
+    const loadFromHash = () => {
+      const code = getBlueprintCodeFromHash(window.location.hash);
+      if (!code) return;
+
+      try {
+        const blueprint = decodeBlueprintCode(code);
+        const errors = validateBuildings(blueprint.buildings);
+        if (errors.length > 0) {
+          console.error('Invalid shared blueprint', errors);
+          alert(formatBlueprintErrors('Failed to load shared blueprint:', errors));
+        } else {
+          setBuildings(blueprint.buildings, `Load Shared "${blueprint.name}"`);
+        }
+      } catch (err) {
+        console.error('Failed to decode shared blueprint', err);
+        alert(`Failed to load shared blueprint: ${(err as Error).message}`);
+      }
+      // Drop the code so a reload doesn't re-import over later edits
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+
+    loadFromHash();
+    window.addEventListener('hashchange', loadFromHash);
+    return () => window.removeEventListener('hashchange', loadFromHash);
+  }, [setBuildings]);
+
+  // Save to the current blueprint slot, or ask for a name if there is none yet
+  const handleSave = async () => {
     if (buildings.length === 0) {
       alert('No buildings to save.');
       return;
     }
-    try {
-      const blueprint: SavedBlueprint = {
-        version: BLUEPRINT_VERSION,
-        name: 'Quick Save',
-        createdAt: Date.now(),
-        lastModified: Date.now(),
-        buildings,
-      };
-      localStorage.setItem('dune-blueprint', JSON.stringify(blueprint));
-      alert('Blueprint saved to local storage.');
-    } catch (e) {
-      console.error('Failed to save data', e);
-      alert('Failed to save blueprint (quota exceeded?).');
-    }
-  };
-
-  // Quick load from localStorage
+    const active = blueprints.find((b) => b.id === activeBlueprintId);
+    if (!active) {
+      handleSaveNewBlueprint();
+      return;
+    }
+    if (await overwriteBlueprint(active.id)) {
+      alert(`Saved "${active.name}".`);
+    } else {
+      alert('Failed to save blueprint.');
+    }
+  };
+
+  // Open the blueprint manager
   const handleLoad = () => {
-    const savedData = localStorage.getItem('dune-blueprint');
-    // Fallback to old format for backwards compatibility
-    const legacyData = localStorage.getItem('dune-buildings');
+    setShowBlueprintManager(true);
+  };
 
-    if (savedData) {
-      try {
-        const parsed: SavedBlueprint = JSON.parse(savedData);
-        if (parsed.buildings && Array.isArray(parsed.buildings)) {
-          setBuildings(parsed.buildings);
-          alert(`Blueprint loaded (${parsed.buildings.length} pieces).`);
-        }
-      } catch (e) {
-        console.error('Failed to parse saved data', e);
-        alert('Failed to load save data.');
-      }
-    } else if (legacyData) {
-      try {
-        const parsed = JSON.parse(legacyData);
-        if (Array.isArray(parsed)) {
-          setBuildings(parsed);
-          alert(`Legacy blueprint loaded (${parsed.length} pieces).`);
-        }
-      } catch (e) {
-        console.error('Failed to parse legacy data', e);
-        alert('Failed to load save data.');
-      }
+  const handleSaveNewBlueprint = async () => {
+    const name = prompt('Enter blueprint name:', `Blueprint ${blueprints.length + 1}`);
+    if (!name) return;
+    if (await saveBlueprintAs(name)) {
+      alert(`Saved "${name}".`);
     } else {
-      alert('No saved blueprint found.');
+      alert('Failed to save blueprint.');
+    }
+  };
+
+  const handleLoadBlueprint = (id: string) => {
+    loadBlueprint(id);
+    setShowBlueprintManager(false);
+  };
+
+  const handleOverwriteBlueprint = async (id: string) => {
+    const blueprint = blueprints.find((b) => b.id === id);
+    if (!blueprint || !confirm(`Overwrite "${blueprint.name}" with the current layout?`)) return;
+    if (!(await overwriteBlueprint(id))) {
+      alert('Failed to save blueprint.');
+    }
+  };
+
+  const handleRenameBlueprint = async (id: string) => {
+    const blueprint = blueprints.find((b) => b.id === id);
+    if (!blueprint) return;
+    const name = prompt('Rename blueprint:', blueprint.name);
+    if (!name || name === blueprint.name) return;
+    if (!(await renameBlueprint(id, name))) {
+      alert('Failed to rename blueprint.');
+    }
+  };
+
+  const handleDuplicateBlueprint = async (id: string) => {
+    if (!(await duplicateBlueprint(id))) {
+      alert('Failed to duplicate blueprint.');
+    }
+  };
+
+  const handleDeleteBlueprint = async (id: string) => {
+    const blueprint = blueprints.find((b) => b.id === id);
+    if (blueprint && confirm(`Delete blueprint "${blueprint.name}"?`)) {
+      if (!(await deleteBlueprint(id))) {
+        alert('Failed to delete blueprint.');
+      }
     }
   };
 
@@ -117,8 +276,29 @@ export default function App() {
     URL.revokeObjectURL(url);
   };
 
+  // Copy a share link with the layout encoded in the URL hash
+  const handleShare = () => {
+    if (buildings.length === 0) {
+      alert('No buildings to share.');
+      return;
+    }
+
+    const name = activeBlueprintName ?? 'Shared Blueprint';
+    const url = createBlueprintShareUrl({ name, buildings });
+    navigator.clipboard.writeText(url)
+      .then(() => alert(`Share link for "${name}" copied to clipboard.`))
+      .catch(() => prompt('Copy this share link:', url));
+  };
+
   // Import blueprint from JSON file
   const handleImport = () => {
+    importModeRef.current = 'replace';
+    fileInputRef.current?.click();
+  };
+
+  // Import a blueprint as a ghost group placed into the current layout
+  const handleMergeImport = () => {
+    importModeRef.current = 'merge';
     fileInputRef.current?.click();
   };
 
@@ -128,35 +308,206 @@ export default function App() {
 
     const reader = new FileReader();
     reader.onload = (event) => {
+      let parsed: unknown;
       try {
-        const content = event.target?.result as string;
-        const parsed = JSON.parse(content);
-
-        // Handle both new format and legacy array format
-        let buildingsToLoad: BuildingData[];
-        if (parsed.buildings && Array.isArray(parsed.buildings)) {
-          buildingsToLoad = parsed.buildings;
-        } else if (Array.isArray(parsed)) {
-          buildingsToLoad = parsed;
-        } else {
-          throw new Error('Invalid blueprint format');
-        }
+        parsed = JSON.parse(event.target?.result as string);
+      } catch (err) {
+        console.error('Failed to parse blueprint file', err);
+        alert(`Failed to import blueprint: "${file.name}" is not valid JSON.`);
+        return;
+      }
+
+      const { blueprint, errors, migratedFrom } = parseBlueprint(parsed, file.name);
+      if (!blueprint) {
+        console.error('Invalid blueprint', errors);
+        alert(formatBlueprintErrors(`Failed to import "${file.name}":`, errors));
+        return;
+      }
 
-        // Validate building data
-        const isValid = buildingsToLoad.every(
-          (b: BuildingData) => b.id && b.type && b.position && b.rotation
-        );
-        if (!isValid) {
-          throw new Error('Invalid building data in blueprint');
+      const { name } = blueprint;
+      if (importModeRef.current === 'merge') {
+        if (blueprint.buildings.length === 0) {
+          alert(`"${name}" has no pieces to merge.`);
+          return;
         }
+        startMergeImport(blueprint.buildings, name);
+        return;
+      }
+      setBuildings(blueprint.buildings, `Import "${name}"`);
+      const note = migratedFrom !== null ? ` Upgraded from format v${migratedFrom}.` : '';
+      alert(`Imported "${name}" (${blueprint.buildings.length} pieces).${note}`);
+    };
+    reader.readAsText(file);
 
-        setBuildings(buildingsToLoad);
-        const name = parsed.name || file.name;
-        alert(`Imported "${name}" (${buildingsToLoad.length} pieces).`);
+    // Reset input so the same file can be imported again
+    e.target.value = '';
+  };
+
+  // Import a terrain heightmap (grayscale image or JSON height grid)
+  const handleImportTerrain = () => {
+    terrainInputRef.current?.click();
+  };
+
+  const handleTerrainFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input so the same file can be imported again
+    e.target.value = '';
+    if (!file) return;
+
+    const name = file.name.replace(/\.[^.]+$/, '');
+    if (file.type.startsWith('image/')) {
+      const answer = prompt('Height of white pixels (m):', String(DEFAULT_IMAGE_MAX_HEIGHT));
+      if (answer === null) return;
+      const maxHeight = Number(answer);
+      if (!Number.isFinite(maxHeight) || maxHeight <= 0) {
+        alert(`Failed to import terrain: "${answer}" is not a positive height.`);
+        return;
+      }
+      try {
+        setTerrain(await readHeightmapImage(file, name, maxHeight));
       } catch (err) {
-        console.error('Failed to import blueprint', err);
-        alert('Failed to import blueprint. Invalid file format.');
+        console.error('Failed to read heightmap image', err);
+        alert(`Failed to import terrain: "${file.name}" could not be read as an image.`);
       }
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch (err) {
+      console.error('Failed to parse heightmap file', err);
+      alert(`Failed to import terrain: "${file.name}" is not valid JSON or an image.`);
+      return;
+    }
+    const { terrain: imported, errors } = parseHeightmapJson(parsed, name);
+    if (!imported) {
+      console.error('Invalid heightmap', errors);
+      alert(formatBlueprintErrors(`Failed to import terrain "${file.name}":`, errors));
+      return;
+    }
+    setTerrain(imported);
+  };
+
+  const handleRemoveTerrain = () => {
+    if (terrain && confirm(`Remove terrain "${terrain.name}" and go back to flat ground?`)) {
+      setTerrain(null);
+    }
+  };
+
+  // Load a saved debug recording for playback
+  const handleLoadRecording = () => {
+    recordingInputRef.current?.click();
+  };
+
+  const handleRecordingFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input so the same file can be loaded again
+    e.target.value = '';
+    if (!file) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch (err) {
+      console.error('Failed to parse debug recording', err);
+      alert(`Failed to load recording: "${file.name}" is not valid JSON.`);
+      return;
+    }
+    const { recording, errors } = parseDebugRecording(parsed);
+    if (!recording) {
+      console.error('Invalid debug recording', errors);
+      alert(formatBlueprintErrors(`Failed to load recording "${file.name}":`, errors));
+      return;
+    }
+    debugPlayback.loadRecording(recording);
+  };
+
+  // Switch claim preset, keeping the totem if the new claim is also a radius
+  const handleSelectBuildRulesPreset = (id: string) => {
+    const preset = BUILD_RULES_PRESETS.find((p) => p.id === id);
+    if (!preset) return;
+    const { zone } = preset.rules;
+    setBuildRules({
+      ...preset.rules,
+      zone: zone?.kind === 'radius' ? { ...zone, totemId: buildRules.zone?.totemId ?? null } : zone,
+    });
+  };
+
+  const handleChangeClaimRadius = (radius: number) => {
+    if (!buildRules.zone) return;
+    setBuildRules({ ...buildRules, presetId: 'custom', zone: { ...buildRules.zone, radius } });
+  };
+
+  const handleChangePieceCap = (total: number | null) => {
+    setBuildRules({ ...buildRules, presetId: 'custom', limits: { ...buildRules.limits, total } });
+  };
+
+  const handleSetTotem = () => {
+    if (!buildRules.zone || selectedIds.length !== 1) return;
+    setBuildRules({ ...buildRules, zone: { ...buildRules.zone, totemId: selectedIds[0] } });
+  };
+
+  // Save the current selection as a named prefab
+  const handleSavePrefab = () => {
+    if (selectedIds.length === 0) return;
+
+    const name = prompt('Enter prefab name:', 'My Prefab');
+    if (!name) return;
+    const prefab = savePrefabFromSelection(name);
+    if (prefab) {
+      alert(`Saved prefab "${prefab.name}" (${prefab.buildings.length} pieces).`);
+    } else {
+      alert('Failed to save prefab.');
+    }
+  };
+
+  const handleExportPrefab = (id: string) => {
+    const prefab = prefabs.find((p) => p.id === id);
+    if (prefab) downloadPrefab(prefab);
+  };
+
+  const handleDeletePrefab = (id: string) => {
+    const prefab = prefabs.find((p) => p.id === id);
+    if (prefab && confirm(`Delete prefab "${prefab.name}"?`) && !deletePrefab(id)) {
+      alert('Failed to delete prefab.');
+    }
+  };
+
+  // Import prefab from JSON file
+  const handleImportPrefab = () => {
+    prefabInputRef.current?.click();
+  };
+
+  const handlePrefabFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(event.target?.result as string);
+      } catch (err) {
+        console.error('Failed to parse prefab file', err);
+        alert(`Failed to import prefab: "${file.name}" is not valid JSON.`);
+        return;
+      }
+
+      const fallbackName = file.name.replace(/\.dune-prefab\.json$|\.json$/i, '');
+      const { prefab: parsedPrefab, errors } = parsePrefab(parsed, fallbackName);
+      if (!parsedPrefab) {
+        console.error('Invalid prefab', errors);
+        alert(formatBlueprintErrors(`Failed to import prefab "${file.name}":`, errors));
+        return;
+      }
+
+      const prefab: SavedPrefab = { ...parsedPrefab, lastModified: Date.now() };
+      if (!addPrefab(prefab)) {
+        alert(`Failed to import prefab "${prefab.name}": it could not be saved.`);
+        return;
+      }
+      alert(`Imported prefab "${prefab.name}" (${prefab.buildings.length} pieces).`);
     };
     reader.readAsText(file);
 
@@ -177,40 +528,181 @@ export default function App() {
         onChange={handleFileChange}
         className="hidden"
       />
+      <input
+        ref={prefabInputRef}
+        type="file"
+        accept=".json,.dune-prefab.json"
+        onChange={handlePrefabFileChange}
+        className="hidden"
+      />
+      <input
+        ref={terrainInputRef}
+        type="file"
+        accept="image/*,.json"
+        onChange={handleTerrainFileChange}
+        className="hidden"
+      />
+      <input
+        ref={recordingInputRef}
+        type="file"
+        accept=".json"
+        onChange={handleRecordingFileChange}
+        className="hidden"
+      />
 
       {/* 3D Canvas Layer */}
       <div className="absolute inset-0 z-0">
         <GameScene
           debugRecorder={debugRecorder}
+          playback={debugPlayback.playback}
         />
       </div>
 
       {/* UI Overlay Layer - pointer-events-none allows clicks to pass through to canvas */}
       <div className="absolute inset-0 z-10 pointer-events-none">
         <Instructions />
-        <DebugRecorderUI debugRecorder={debugRecorder} />
-        <UI
-          activeType={activeType}
-          setActiveType={setActiveType}
-          onClear={() => setBuildings([])}
-          onSave={handleSave}
-          onLoad={handleLoad}
-          onExport={handleExport}
-          onImport={handleImport}
-          showWireframe={showWireframe}
-          setShowWireframe={(val) => toggleWireframe()}
-          showSocketDebug={showSocketDebug}
-          setShowSocketDebug={(val) => toggleSocketDebug()}
-          is2DMode={is2DMode}
-          setIs2DMode={(val) => toggle2DMode()}
-          autoHeight={autoHeight}
-          setAutoHeight={(val) => toggleAutoHeight()}
-          manualHeight={manualHeight}
-          setManualHeight={(val) => toggleManualHeight()}
-          activeBuildingSet={activeBuildingSet}
-          setActiveBuildingSet={setActiveBuildingSet}
-          debugRecorder={debugRecorder}
-        />
+        <DebugRecorderUI debugRecorder={debugRecorder} onLoadRecording={handleLoadRecording} />
+        {debugPlayback.playback ? (
+          <>
+            <PlaybackPanel
+              playback={debugPlayback.playback}
+              speeds={PLAYBACK_SPEEDS}
+              onTogglePlaying={debugPlayback.togglePlaying}
+              onStep={debugPlayback.step}
+              onSeek={debugPlayback.seek}
+              onSetSpeed={debugPlayback.setSpeed}
+              onDiff={debugPlayback.runDiff}
+              onClose={debugPlayback.closePlayback}
+            />
+            {debugPlayback.diff && (
+              <SnapDiffPanel
+                groups={debugPlayback.diff}
+                currentFrameIndex={debugPlayback.playback.currentFrameIndex}
+                onSeek={debugPlayback.seek}
+                onClose={debugPlayback.closeDiff}
+              />
+            )}
+          </>
+        ) : (
+          <>
+            <HistoryPanel past={past} future={future} onUndo={undo} onRedo={redo} />
+            {billOfMaterials && (
+              <BillOfMaterialsPanel
+                bom={billOfMaterials}
+                onExportCsv={() => downloadBillOfMaterials(billOfMaterials, 'csv', activeBlueprintName)}
+                onExportJson={() => downloadBillOfMaterials(billOfMaterials, 'json', activeBlueprintName)}
+              />
+            )}
+            {roomAnalysis && <RoomsPanel analysis={roomAnalysis} />}
+            {showBuildRules && (
+              <BuildRulesPanel
+                rules={buildRules}
+                presets={BUILD_RULES_PRESETS}
+                budget={buildBudget}
+                canSetTotem={selectedIds.length === 1}
+                onSelectPreset={handleSelectBuildRulesPreset}
+                onChangeRadius={handleChangeClaimRadius}
+                onChangeTotal={handleChangePieceCap}
+                onSetTotem={handleSetTotem}
+              />
+            )}
+            {terrain && terrainRange && (
+              <TerrainPanel
+                terrain={terrain}
+                heightRange={terrainRange}
+                pillars={pillars}
+                onReplace={handleImportTerrain}
+                onRemove={handleRemoveTerrain}
+              />
+            )}
+            {interactionMode === 'select' && (
+              <SelectionPanel
+                selectedCount={selectedIds.length}
+                blockedCount={selectionCollisions.length}
+                onDelete={deleteSelected}
+                onDuplicate={duplicateSelected}
+                onRotate={rotateSelected}
+                onMove={moveSelected}
+                onCopy={copySelected}
+                onCut={cutSelected}
+                onPaste={startPaste}
+                canPaste={clipboard !== null}
+                moveStep={UNIT_SIZE}
+              />
+            )}
+            <SelectionBoxOverlay rect={selectionRect} />
+            {snapCycle && snapCycle.total > 1 && interactionMode === 'build' && (
+              <SnapCycleIndicator cycle={snapCycle} />
+            )}
+            {placementGroup && interactionMode === 'build' && (
+              <PlacementPanel
+                title={placementGroup.label ?? (placementGroup.name ? `Place "${placementGroup.name}"` : 'Paste')}
+                pieceCount={placementGroup.pieces.length}
+                collisionCount={placementCollisions.length}
+                onCancel={cancelPlacement}
+              />
+            )}
+            <UI
+              activeType={activeType}
+              setActiveType={setActiveType}
+              onClear={() => buildings.length > 0 && setBuildings([], 'Clear')}
+              onSave={handleSave}
+              onLoad={handleLoad}
+              onExport={handleExport}
+              onImport={handleImport}
+              onShare={handleShare}
+              onMergeImport={handleMergeImport}
+              onImportTerrain={handleImportTerrain}
+              showBuildRules={showBuildRules}
+              setShowBuildRules={(val) => toggleBuildRules()}
+              showWireframe={showWireframe}
+              setShowWireframe={(val) => toggleWireframe()}
+              showBillOfMaterials={showBillOfMaterials}
+              setShowBillOfMaterials={(val) => toggleBillOfMaterials()}
+              showRooms={showRooms}
+              setShowRooms={(val) => toggleRooms()}
+              showStability={showStability}
+              setShowStability={(val) => toggleStability()}
+              cascadeRemoval={cascadeRemoval}
+              setCascadeRemoval={(val) => toggleCascadeRemoval()}
+              showSocketDebug={showSocketDebug}
+              setShowSocketDebug={(val) => toggleSocketDebug()}
+              is2DMode={is2DMode}
+              setIs2DMode={(val) => toggle2DMode()}
+              autoHeight={autoHeight}
+              setAutoHeight={(val) => toggleAutoHeight()}
+              manualHeight={manualHeight}
+              setManualHeight={(val) => toggleManualHeight()}
+              activeBuildingSet={activeBuildingSet}
+              setActiveBuildingSet={setActiveBuildingSet}
+              interactionMode={interactionMode}
+              setInteractionMode={setInteractionMode}
+              prefabs={prefabs}
+              activePrefabId={activePrefabId}
+              onPickPrefab={pickPrefab}
+              onSavePrefab={handleSavePrefab}
+              canSavePrefab={selectedIds.length > 0}
+              onImportPrefab={handleImportPrefab}
+              onExportPrefab={handleExportPrefab}
+              onDeletePrefab={handleDeletePrefab}
+              debugRecorder={debugRecorder}
+            />
+          </>
+        )}
+        {showBlueprintManager && (
+          <BlueprintManager
+            blueprints={blueprints}
+            activeBlueprintId={activeBlueprintId}
+            canSave={buildings.length > 0}
+            onLoad={handleLoadBlueprint}
+            onSaveNew={handleSaveNewBlueprint}
+            onOverwrite={handleOverwriteBlueprint}
+            onRename={handleRenameBlueprint}
+            onDuplicate={handleDuplicateBlueprint}
+            onDelete={handleDeleteBlueprint}
+            onClose={() => setShowBlueprintManager(false)}
+          />
+        )}
       </div>
     </div>
   );
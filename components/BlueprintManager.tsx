@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { StoredBlueprint } from '../types';
+import { FolderOpen, Save, Plus, Pencil, Copy, Trash2, X, LayoutGrid } from 'lucide-react';
+
+type BlueprintSort = 'modified' | 'created' | 'name';
+
+const SORT_OPTIONS: { value: BlueprintSort; label: string }[] = [
+  { value: 'modified', label: 'Last Modified' },
+  { value: 'created', label: 'Created' },
+  { value: 'name', label: 'Name' },
+];
+
+const sortBlueprints = (blueprints: StoredBlueprint[], sort: BlueprintSort): StoredBlueprint[] => {
+  const sorted = [...blueprints];
+  switch (sort) {
+    case 'modified':
+      return sorted.sort((a, b) => b.lastModified - a.lastModified);
+    case 'created':
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+  }
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+interface BlueprintManagerProps {
+  blueprints: StoredBlueprint[];
+  activeBlueprintId: string | null;
+  canSave: boolean;
+  onLoad: (id: string) => void;
+  onSaveNew: () => void;
+  onOverwrite: (id: string) => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal listing the named blueprint slots stored in the browser.
+ */
+export const BlueprintManager = ({
+  blueprints,
+  activeBlueprintId,
+  canSave,
+  onLoad,
+  onSaveNew,
+  onOverwrite,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClose,
+}: BlueprintManagerProps) => {
+  const [sort, setSort] = useState<BlueprintSort>('modified');
+  const sorted = useMemo(() => sortBlueprints(blueprints, sort), [blueprints, sort]);
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto"
+      onClick={onClose}
+    >
+      <div
+        className="w-[36rem] max-w-[95vw] max-h-[80vh] flex flex-col bg-dune-ui p-4 rounded-xl text-white/80 font-mono text-sm border border-dune-gold/30 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-dune-gold font-bold uppercase flex items-center gap-2">
+            <LayoutGrid size={16} />
+            Blueprints
+          </h3>
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-3">
+          <button
+            onClick={onSaveNew}
+            disabled={!canSave}
+            className="px-3 py-1.5 bg-green-700 hover:bg-green-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white text-xs font-bold uppercase transition-colors flex items-center gap-1"
+            title="Save the current layout as a new blueprint"
+          >
+            <Plus size={14} />
+            Save As New
+          </button>
+
+          <label className="ml-auto text-xs text-white/50 flex items-center gap-2">
+            Sort
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as BlueprintSort)}
+              className="bg-black/40 border border-white/20 rounded px-2 py-1 text-white/80"
+            >
+              {SORT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="overflow-y-auto flex-1 space-y-2">
+          {sorted.length === 0 && (
+            <div className="text-white/40 text-xs italic py-6 text-center">No saved blueprints yet</div>
+          )}
+
+          {sorted.map((bp) => (
+            <div
+              key={bp.id}
+              className={`flex gap-3 p-2 rounded-lg border ${bp.id === activeBlueprintId ? 'border-dune-gold bg-dune-gold/10' : 'border-white/10 bg-black/20'}`}
+            >
+              {bp.thumbnail ? (
+                <img src={bp.thumbnail} alt="" className="w-16 h-16 rounded shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded shrink-0 bg-black/40" />
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="text-white font-bold truncate" title={bp.name}>{bp.name}</div>
+                <div className="text-[10px] text-white/50">{bp.buildings.length} pieces</div>
+                <div className="text-[10px] text-white/40">Created {formatDate(bp.createdAt)}</div>
+                <div className="text-[10px] text-white/40">Modified {formatDate(bp.lastModified)}</div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-1 self-center">
+                <button
+                  onClick={() => onLoad(bp.id)}
+                  className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                  title="Load"
+                >
+                  <FolderOpen size={14} />
+                </button>
+                <button
+                  onClick={() => onOverwrite(bp.id)}
+                  disabled={!canSave}
+                  className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed text-white"
+                  title="Overwrite with current layout"
+                >
+                  <Save size={14} />
+                </button>
+                <button
+                  onClick={() => onRename(bp.id)}
+                  className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                  title="Rename"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => onDuplicate(bp.id)}
+                  className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                  title="Duplicate"
+                >
+                  <Copy size={14} />
+                </button>
+                <button
+                  onClick={() => onDelete(bp.id)}
+                  className="p-1.5 rounded bg-red-900/70 hover:bg-red-800 text-red-200"
+                  title="Delete"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { Canvas, useThree, useFrame, ThreeEvent } from '@react-three/fiber';
-import { OrbitControls, Stars } from '@react-three/drei';
+import { OrbitControls, Stars, Outlines, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import {
   BuildingType,
@@ -13,6 +13,8 @@ import {
   TRIANGLE_APOTHEM,
   WALL_HEIGHT,
   HALF_WALL_HEIGHT,
+  WALL_THICKNESS,
+  ROOF_HEIGHT,
 } from '../types';
 import {
   calculateSnap,
@@ -21,8 +23,9 @@ import {
   getWorldEdgeSockets,
   getCompatibleSocketTypes,
   usesEdgeSockets as utilUsesEdgeSockets,
+  createOverlapIssue,
 } from '../utils/geometry';
-import type { PreferredSnapTarget } from '../utils/geometry';
+import type { PreferredSnapTarget, PlacementIssue, PlacementIssueKind } from '../utils/geometry';
 import {
   createCurvedFoundationShape,
   createCurvedWallShape,
@@ -32,21 +35,28 @@ import {
   RAMP_THICKNESS,
   RAIL_WIDTH,
   RAIL_HEIGHT,
-  ROOF_HEIGHT,
   ROOF_THICKNESS,
   WINDOW_HEIGHT,
   WINDOW_WIDTH_RATIO,
 } from '../utils/buildingGeometries';
 import { useGameStore } from '../store/gameStore';
-import { getRotationIncrement, getYOffsetFromRegistry } from '../data/BuildingRegistry';
+import { getBuildingsInScreenRect } from '../utils/selection';
+import { instantiatePlacementGroup, findOverlappingBuildings } from '../utils/clipboard';
+import { computeStability } from '../utils/stability';
+import { getTerrainHeight, getPillarHeight, PILLAR_REPORT_MIN } from '../utils/terrain';
+import { findBuildRuleIssues, getZoneCenter } from '../utils/buildRules';
+import type { BuildZone, BuildRules } from '../data/buildRules';
+import type { Terrain } from '../utils/terrain';
+import { analyzeRooms, RoomGap } from '../utils/rooms';
+import { getBuildingDef, getRotationIncrement, getYOffsetFromRegistry } from '../data/BuildingRegistry';
 import { PALETTES } from '../data/palettes';
+import { getBuildingsAtFrame, getSnapFrameAt } from '../utils/debugPlayback';
+import { serializeSnapTarget, getRecordedPlacementContext } from '../utils/snapReplay';
+import type { DebugSnapCalculation, PlaybackState } from '../types/debug';
 
 // Edge color constant (not part of palette)
 const EDGE_COLOR = 'black';
 
-// Wall thickness
-const WALL_THICKNESS = 0.2;
-
 interface MaterialsType {
   ghost: THREE.MeshBasicMaterial;
   error: THREE.MeshBasicMaterial;
@@ -64,6 +74,7 @@ interface BuildingMeshProps {
   wireframe?: boolean;
   materials: MaterialsType;
   palette: BuildingPalette;
+  outlineColor?: string;
 }
 
 /**
@@ -110,9 +121,26 @@ interface GeometryProps {
   isValid?: boolean;
   materials: MaterialsType;
   palette: BuildingPalette;
+  outlineColor?: string;
 }
 
-const SquareFoundation = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => (
+// Highlight colors for outlined pieces
+const SELECTION_COLOR = '#FFD700';
+const COLLISION_COLOR = '#FF3030'; // Existing pieces overlapped by a ghost group
+const UNSUPPORTED_COLOR = '#FF8C00'; // Pieces with no support path to the ground
+const GAP_COLOR = '#00BFFF';         // Pieces bordering a gap in a room (room analysis)
+
+// Issues a ghost group checks for all of its pieces instead of taking the anchor's
+const GROUP_CHECKED_ISSUES = new Set<PlacementIssueKind>(['overlap', 'socket-occupied', 'outside-zone', 'piece-limit']);
+
+/**
+ * Outline around the parent mesh, used for selection highlights.
+ * Renders nothing when no color is given.
+ */
+const HighlightOutline = ({ color }: { color?: string }) =>
+  color ? <Outlines thickness={0.08} color={color} /> : null;
+
+const SquareFoundation = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => (
   <>
     <boxGeometry args={[UNIT_SIZE, FOUNDATION_HEIGHT, UNIT_SIZE]} />
     {isGhost ? (
@@ -120,6 +148,7 @@ const SquareFoundation = ({ wireframe, isGhost, isValid = true, materials, palet
     ) : (
       <meshStandardMaterial color={palette.foundation} roughness={0.8} wireframe={wireframe} />
     )}
+    <HighlightOutline color={outlineColor} />
     {!isGhost && (
       <lineSegments>
         <edgesGeometry args={[new THREE.BoxGeometry(UNIT_SIZE, FOUNDATION_HEIGHT, UNIT_SIZE)]} />
@@ -129,7 +158,7 @@ const SquareFoundation = ({ wireframe, isGhost, isValid = true, materials, palet
   </>
 );
 
-const TriangleFoundation = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const TriangleFoundation = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   // Custom triangle geometry with FLAT BASE at BOTTOM of screen, apex at TOP
   //
   // In 2D mode, camera looks down from Y+. On screen:
@@ -205,6 +234,7 @@ const TriangleFoundation = ({ wireframe, isGhost, isValid = true, materials, pal
       ) : (
         <meshStandardMaterial color={palette.foundation} roughness={0.8} wireframe={wireframe} />
       )}
+      <HighlightOutline color={outlineColor} />
       {!isGhost && (
         <lineSegments>
           <primitive object={edgeGeometry} attach="geometry" />
@@ -215,7 +245,7 @@ const TriangleFoundation = ({ wireframe, isGhost, isValid = true, materials, pal
   );
 };
 
-const CurvedFoundation = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const CurvedFoundation = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   const shape = useMemo(() => createCurvedFoundationShape(), []);
   const extrudeSettings = useMemo(() => ({ depth: FOUNDATION_HEIGHT, bevelEnabled: false }), []);
 
@@ -228,6 +258,7 @@ const CurvedFoundation = ({ wireframe, isGhost, isValid = true, materials, palet
         ) : (
           <meshStandardMaterial color={palette.foundation} roughness={0.8} wireframe={wireframe} />
         )}
+        <HighlightOutline color={outlineColor} />
       </mesh>
     </group>
   );
@@ -239,6 +270,7 @@ const CurvedWall = ({
   isValid = true,
   materials,
   palette,
+  outlineColor,
   height,
 }: GeometryProps & { height: number }) => {
   const shape = useMemo(() => createCurvedWallShape(WALL_THICKNESS), []);
@@ -253,6 +285,7 @@ const CurvedWall = ({
         ) : (
           <meshStandardMaterial color={palette.wallExterior} roughness={0.9} wireframe={wireframe} />
         )}
+        <HighlightOutline color={outlineColor} />
       </mesh>
     </group>
   );
@@ -262,7 +295,7 @@ const CurvedWall = ({
 // Structure Components (Raised Platform Foundations - WALL_HEIGHT tall)
 // =============================================================================
 
-const SquareStructure = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => (
+const SquareStructure = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => (
   <>
     <boxGeometry args={[UNIT_SIZE, WALL_HEIGHT, UNIT_SIZE]} />
     {isGhost ? (
@@ -270,6 +303,7 @@ const SquareStructure = ({ wireframe, isGhost, isValid = true, materials, palett
     ) : (
       <meshStandardMaterial color={palette.foundation} roughness={0.8} wireframe={wireframe} />
     )}
+    <HighlightOutline color={outlineColor} />
     {!isGhost && (
       <lineSegments>
         <edgesGeometry args={[new THREE.BoxGeometry(UNIT_SIZE, WALL_HEIGHT, UNIT_SIZE)]} />
@@ -279,7 +313,7 @@ const SquareStructure = ({ wireframe, isGhost, isValid = true, materials, palett
   </>
 );
 
-const TriangleStructure = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const TriangleStructure = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   // Same triangle geometry as TriangleFoundation but with WALL_HEIGHT instead of FOUNDATION_HEIGHT
   const geometry = useMemo(() => {
     const halfSize = UNIT_SIZE / 2;
@@ -327,6 +361,7 @@ const TriangleStructure = ({ wireframe, isGhost, isValid = true, materials, pale
       ) : (
         <meshStandardMaterial color={palette.foundation} roughness={0.8} wireframe={wireframe} />
       )}
+      <HighlightOutline color={outlineColor} />
       {!isGhost && (
         <lineSegments>
           <primitive object={edgeGeometry} attach="geometry" />
@@ -337,7 +372,7 @@ const TriangleStructure = ({ wireframe, isGhost, isValid = true, materials, pale
   );
 };
 
-const CurvedStructure = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const CurvedStructure = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   const shape = useMemo(() => createCurvedFoundationShape(), []);
   const extrudeSettings = useMemo(() => ({ depth: WALL_HEIGHT, bevelEnabled: false }), []);
 
@@ -350,12 +385,13 @@ const CurvedStructure = ({ wireframe, isGhost, isValid = true, materials, palett
         ) : (
           <meshStandardMaterial color={palette.foundation} roughness={0.8} wireframe={wireframe} />
         )}
+        <HighlightOutline color={outlineColor} />
       </mesh>
     </group>
   );
 };
 
-const Wall = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const Wall = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   // Create materials array for 6 faces to support different interior/exterior colors
   // Box geometry faces order: +X, -X, +Y, -Y, +Z (front/exterior), -Z (back/interior)
   const wallMaterials = useMemo(() => {
@@ -395,11 +431,12 @@ const Wall = ({ wireframe, isGhost, isValid = true, materials, palette }: Geomet
       ) : (
         <primitive object={wallMaterials} attach="material" />
       )}
+      <HighlightOutline color={outlineColor} />
     </>
   );
 };
 
-const HalfWall = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const HalfWall = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   // Same dual-sided materials as Wall
   const wallMaterials = useMemo(() => {
     return [
@@ -437,11 +474,12 @@ const HalfWall = ({ wireframe, isGhost, isValid = true, materials, palette }: Ge
       ) : (
         <primitive object={wallMaterials} attach="material" />
       )}
+      <HighlightOutline color={outlineColor} />
     </>
   );
 };
 
-const WindowWall = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => (
+const WindowWall = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => (
   <group>
     <mesh position={[0, 0, 0]}>
       <boxGeometry args={[UNIT_SIZE, WALL_HEIGHT, WALL_THICKNESS]} />
@@ -450,6 +488,7 @@ const WindowWall = ({ wireframe, isGhost, isValid = true, materials, palette }:
       ) : (
         <meshStandardMaterial color={palette.windowWall} roughness={0.9} transparent opacity={0.9} wireframe={wireframe} />
       )}
+      <HighlightOutline color={outlineColor} />
     </mesh>
     {!wireframe && !isGhost && (
       <mesh position={[0, 0, 0.05]}>
@@ -460,7 +499,7 @@ const WindowWall = ({ wireframe, isGhost, isValid = true, materials, palette }:
   </group>
 );
 
-const Doorway = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const Doorway = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   const shape = useMemo(() => createDoorwayShape(), []);
   const extrudeSettings = useMemo(() => ({ depth: WALL_THICKNESS, bevelEnabled: false }), []);
 
@@ -473,12 +512,13 @@ const Doorway = ({ wireframe, isGhost, isValid = true, materials, palette }: Geo
         ) : (
           <meshStandardMaterial color={palette.wallExterior} roughness={0.9} wireframe={wireframe} />
         )}
+        <HighlightOutline color={outlineColor} />
       </mesh>
     </group>
   );
 };
 
-const SquareRoof = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const SquareRoof = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   const roofAngle = useMemo(() => -Math.atan(ROOF_HEIGHT / UNIT_SIZE), []);
   const roofLength = useMemo(() => Math.sqrt(UNIT_SIZE * UNIT_SIZE + ROOF_HEIGHT * ROOF_HEIGHT) + 1, []);
 
@@ -491,6 +531,7 @@ const SquareRoof = ({ wireframe, isGhost, isValid = true, materials, palette }:
         ) : (
           <meshStandardMaterial color={palette.roof} wireframe={wireframe} />
         )}
+        <HighlightOutline color={outlineColor} />
       </mesh>
       {!wireframe && !isGhost && (
         <>
@@ -508,7 +549,7 @@ const SquareRoof = ({ wireframe, isGhost, isValid = true, materials, palette }:
   );
 };
 
-const TriangleRoof = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => (
+const TriangleRoof = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => (
   <group position={[0, ROOF_HEIGHT / 2, 0]}>
     <mesh>
       <coneGeometry args={[TRIANGLE_RADIUS, ROOF_HEIGHT, 3]} />
@@ -517,11 +558,12 @@ const TriangleRoof = ({ wireframe, isGhost, isValid = true, materials, palette }
       ) : (
         <meshStandardMaterial color={palette.roof} wireframe={wireframe} />
       )}
+      <HighlightOutline color={outlineColor} />
     </mesh>
   </group>
 );
 
-const Stairs = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const Stairs = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   const steps = useMemo(() => getStairSteps(), []);
   const stepHeight = WALL_HEIGHT / 8;
   const stepDepth = UNIT_SIZE / 8;
@@ -536,13 +578,14 @@ const Stairs = ({ wireframe, isGhost, isValid = true, materials, palette }: Geom
           ) : (
             <meshStandardMaterial color={palette.incline} wireframe={wireframe} />
           )}
+          <HighlightOutline color={outlineColor} />
         </mesh>
       ))}
     </group>
   );
 };
 
-const Ramp = ({ wireframe, isGhost, isValid = true, materials, palette }: GeometryProps) => {
+const Ramp = ({ wireframe, isGhost, isValid = true, materials, palette, outlineColor }: GeometryProps) => {
   const { length, angle } = useMemo(() => getRampParams(), []);
 
   return (
@@ -554,6 +597,7 @@ const Ramp = ({ wireframe, isGhost, isValid = true, materials, palette }: Geomet
         ) : (
           <meshStandardMaterial color={palette.incline} wireframe={wireframe} />
         )}
+        <HighlightOutline color={outlineColor} />
       </mesh>
       {!wireframe && !isGhost && (
         <>
@@ -585,8 +629,9 @@ const BuildingMesh = ({
   wireframe = false,
   materials,
   palette,
+  outlineColor,
 }: BuildingMeshProps) => {
-  const geometryProps: GeometryProps = { wireframe, isGhost, isValid, materials, palette };
+  const geometryProps: GeometryProps = { wireframe, isGhost, isValid, materials, palette, outlineColor };
 
   // Render the appropriate geometry based on type
   const renderGeometry = () => {
@@ -664,6 +709,239 @@ const BuildingMesh = ({
 // Socket Debug Visualizer
 // =============================================================================
 
+/**
+ * Translucent markers over room gaps: a panel filling each open or
+ * half-walled side, and a slab over each uncovered floor cell.
+ */
+const RoomGapOverlay = ({ gaps }: { gaps: RoomGap[] }) => (
+  <group>
+    {gaps.map((gap, idx) => {
+      const [x, y, z] = gap.position;
+      if (gap.kind === 'missing-roof') {
+        return (
+          <mesh key={`gap-${idx}`} position={[x, y + FOUNDATION_HEIGHT + WALL_HEIGHT, z]}>
+            <boxGeometry args={[UNIT_SIZE * 0.5, 0.05, UNIT_SIZE * 0.5]} />
+            <meshBasicMaterial color={GAP_COLOR} transparent opacity={0.35} depthWrite={false} />
+          </mesh>
+        );
+      }
+      const bottom = gap.kind === 'half-wall' ? HALF_WALL_HEIGHT : 0;
+      const height = WALL_HEIGHT - bottom;
+      return (
+        <mesh
+          key={`gap-${idx}`}
+          position={[x, y + bottom + height / 2, z]}
+          rotation={[0, Math.atan2(gap.normal[0], gap.normal[2]), 0]}
+        >
+          <planeGeometry args={[UNIT_SIZE * 0.9, height]} />
+          <meshBasicMaterial color={GAP_COLOR} transparent opacity={0.35} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      );
+    })}
+  </group>
+);
+
+/**
+ * Rejection reasons floating above an invalid ghost.
+ */
+const PlacementIssueTooltip = ({ position, issues }: { position: [number, number, number]; issues: PlacementIssue[] }) => (
+  <Html position={[position[0], position[1] + WALL_HEIGHT + 0.5, position[2]]} center zIndexRange={[10, 0]}>
+    <div className="bg-dune-ui/90 px-2 py-1 rounded text-xs font-mono text-red-300 border-l-2 border-red-500 whitespace-nowrap pointer-events-none select-none">
+      {issues.map((issue, idx) => (
+        <div key={idx}>{issue.message}</div>
+      ))}
+    </div>
+  </Html>
+);
+
+/** Half the ground size, matching the grid helper */
+const GROUND_HALF_EXTENT = 500;
+/** Height of grid lines above the ground (more on terrain, where lines cut across mesh faces) */
+const GRID_LIFT = 0.01;
+const TERRAIN_GRID_LIFT = 0.1;
+
+/**
+ * Line segments on the ground from flat [x1, z1, x2, z2, ...] pairs, draped
+ * over the terrain when there is one.
+ */
+const createGroundLines = (segments: number[], terrain: Terrain | null): THREE.BufferGeometry => {
+  const points: number[] = [];
+  for (let i = 0; i < segments.length; i += 2) {
+    const x = segments[i];
+    const z = segments[i + 1];
+    points.push(x, terrain ? getTerrainHeight(terrain, x, z) + TERRAIN_GRID_LIFT : GRID_LIFT, z);
+  }
+  return new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+};
+
+const GroundLines = ({ geometry, color = 0x6b5c45 }: { geometry: THREE.BufferGeometry; color?: number }) => {
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  return (
+    <lineSegments geometry={geometry}>
+      <lineBasicMaterial color={color} />
+    </lineSegments>
+  );
+};
+
+/**
+ * Ground grid for triangle pieces: on every grid line a strip of triangles
+ * with their bases on the line, where the grid fallback places them.
+ */
+const TriangleLatticeGrid = ({ terrain }: { terrain: Terrain | null }) => {
+  const geometry = useMemo(() => {
+    const rowHeight = TRIANGLE_APOTHEM + TRIANGLE_RADIUS;
+    const half = UNIT_SIZE / 2;
+    const segments: number[] = [];
+    const line = (x1: number, z1: number, x2: number, z2: number) => segments.push(x1, z1, x2, z2);
+
+    // Rows are split per cell on terrain so they follow the ground
+    const rowStep = terrain ? UNIT_SIZE : GROUND_HALF_EXTENT * 2;
+
+    for (let z = -GROUND_HALF_EXTENT; z < GROUND_HALF_EXTENT; z += UNIT_SIZE) {
+      for (let x = -GROUND_HALF_EXTENT; x < GROUND_HALF_EXTENT; x += rowStep) {
+        line(x, z, x + rowStep, z);
+        line(x, z + rowHeight, x + rowStep, z + rowHeight);
+      }
+      for (let x = -GROUND_HALF_EXTENT; x < GROUND_HALF_EXTENT; x += UNIT_SIZE) {
+        line(x, z, x + half, z + rowHeight);
+        line(x + half, z + rowHeight, x + UNIT_SIZE, z);
+      }
+    }
+    return createGroundLines(segments, terrain);
+  }, [terrain]);
+
+  return <GroundLines geometry={geometry} />;
+};
+
+/**
+ * The square ground grid draped over a terrain, one segment per grid cell side.
+ */
+const TerrainGrid = ({ terrain }: { terrain: Terrain }) => {
+  const geometry = useMemo(() => {
+    const segments: number[] = [];
+    for (let a = -GROUND_HALF_EXTENT; a <= GROUND_HALF_EXTENT; a += UNIT_SIZE) {
+      for (let b = -GROUND_HALF_EXTENT; b < GROUND_HALF_EXTENT; b += UNIT_SIZE) {
+        segments.push(a, b, a, b + UNIT_SIZE);
+        segments.push(b, a, b + UNIT_SIZE, a);
+      }
+    }
+    return createGroundLines(segments, terrain);
+  }, [terrain]);
+
+  return <GroundLines geometry={geometry} />;
+};
+
+/**
+ * Ground plane displaced by the terrain heightmap, one vertex per sample.
+ */
+const TerrainGround = ({ terrain }: { terrain: Terrain }) => {
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(GROUND_HALF_EXTENT * 2, GROUND_HALF_EXTENT * 2, terrain.columns - 1, terrain.rows - 1);
+    // Plane rows run from +Y to -Y, which the -90° X rotation turns into -Z to +Z like the samples
+    const positions = plane.attributes.position as THREE.BufferAttribute;
+    terrain.heights.forEach((h, i) => positions.setZ(i, h));
+    plane.computeVertexNormals();
+    return plane;
+  }, [terrain]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]}>
+      <meshStandardMaterial color="#E6C288" roughness={0.9} />
+    </mesh>
+  );
+};
+
+const ZONE_COLOR = 0xd4a056;
+const ZONE_CIRCLE_SEGMENTS = 128;
+
+/**
+ * Outline of the claim area on the ground. Polygon sides are split per grid
+ * unit so they follow the terrain.
+ */
+const BuildZoneOutline = ({ zone, center, terrain }: { zone: BuildZone; center: [number, number]; terrain: Terrain | null }) => {
+  const geometry = useMemo(() => {
+    const outline: [number, number][] = zone.kind === 'radius'
+      ? Array.from({ length: ZONE_CIRCLE_SEGMENTS }, (_, i) => {
+        const angle = (i / ZONE_CIRCLE_SEGMENTS) * Math.PI * 2;
+        return [center[0] + Math.cos(angle) * zone.radius, center[1] + Math.sin(angle) * zone.radius];
+      })
+      : zone.polygon;
+
+    const segments: number[] = [];
+    outline.forEach(([x1, z1], i) => {
+      const [x2, z2] = outline[(i + 1) % outline.length];
+      const steps = Math.max(1, Math.ceil(Math.hypot(x2 - x1, z2 - z1) / UNIT_SIZE));
+      for (let s = 0; s < steps; s++) {
+        segments.push(
+          x1 + ((x2 - x1) * s) / steps, z1 + ((z2 - z1) * s) / steps,
+          x1 + ((x2 - x1) * (s + 1)) / steps, z1 + ((z2 - z1) * (s + 1)) / steps
+        );
+      }
+    });
+    return createGroundLines(segments, terrain);
+  }, [zone, center[0], center[1], terrain]);
+
+  return <GroundLines geometry={geometry} color={ZONE_COLOR} />;
+};
+
+interface SiteGroundProps {
+  terrain: Terrain | null;
+  buildRules: BuildRules | null | undefined;
+  buildings: BuildingData[];
+  triangleLattice: boolean;  // Show the triangle lattice instead of the square grid
+}
+
+/**
+ * Ground plane (or terrain), grid and claim area outline, as the planner
+ * shows them. Playback draws the recording's site the same way.
+ */
+const SiteGround = ({ terrain, buildRules, buildings, triangleLattice }: SiteGroundProps) => {
+  const zone = buildRules?.zone ?? null;
+  const zoneCenter = useMemo(
+    () => (zone ? getZoneCenter(zone, buildings) : null),
+    [zone, buildings]
+  );
+
+  return (
+    <>
+      {/* Ground plane (or imported terrain) */}
+      {terrain ? (
+        <TerrainGround terrain={terrain} />
+      ) : (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]}>
+          <planeGeometry args={[1000, 1000]} />
+          <meshStandardMaterial color="#E6C288" roughness={0.9} />
+        </mesh>
+      )}
+
+      {/* Grid, as a triangle lattice while placing triangle pieces */}
+      {triangleLattice ? (
+        <TriangleLatticeGrid terrain={terrain} />
+      ) : terrain ? (
+        <TerrainGrid terrain={terrain} />
+      ) : (
+        <gridHelper args={[1000, 250, 0x000000, 0x6b5c45]} position={[0, 0.01, 0]} />
+      )}
+
+      {/* Claim area */}
+      {zone && zoneCenter && <BuildZoneOutline zone={zone} center={zoneCenter} terrain={terrain} />}
+    </>
+  );
+};
+
+/**
+ * Pillar height under a foundation ghost standing on uneven ground.
+ */
+const PillarLabel = ({ position, height }: { position: [number, number, number]; height: number }) => (
+  <Html position={position} center zIndexRange={[10, 0]}>
+    <div className="bg-dune-ui/90 px-2 py-0.5 rounded text-xs font-mono text-dune-gold border-l-2 border-dune-gold whitespace-nowrap pointer-events-none select-none">
+      Pillars {height.toFixed(1)} m
+    </div>
+  </Html>
+);
+
 const SocketDebugVisualizer = () => {
   const { buildings } = useGameStore();
 
@@ -877,34 +1155,175 @@ interface PlannerProps {
 }
 
 const Planner = ({ materials, debugRecorder }: PlannerProps) => {
-  const { buildings, addBuilding, removeBuilding, activeType, showWireframe, showSocketDebug, autoHeight, manualHeight, activeBuildingSet } = useGameStore();
+  const { buildings, addBuilding, removeBuilding, activeType, showWireframe, showSocketDebug, showRooms, showStability, autoHeight, manualHeight, activeBuildingSet, terrain, buildRules } = useGameStore();
+  const {
+    interactionMode,
+    setInteractionMode,
+    selectedIds,
+    selectBuildings,
+    clearSelection,
+    setSelectionRect,
+    deleteSelected,
+    moveSelected,
+    rotateSelected,
+    duplicateSelected,
+  } = useGameStore();
+  const { placementGroup, placementCollisions, setPlacementCollisions, selectionCollisions, addBuildings, copySelected, cutSelected, startPaste, cancelPlacement } = useGameStore();
+  const { setSnapCycle } = useGameStore();
   const palette = PALETTES[activeBuildingSet];
-  const { camera, raycaster, mouse } = useThree();
+  const { camera, raycaster, mouse, gl } = useThree();
+  const isSelectMode = interactionMode === 'select';
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const collisionSet = useMemo(
+    () => new Set(placementGroup ? placementCollisions : isSelectMode ? selectionCollisions : []),
+    [placementGroup, placementCollisions, isSelectMode, selectionCollisions]
+  );
+  // Only computed while the overlay is on; cascade removal computes its own when it needs it
+  const unsupportedSet = useMemo(
+    () => new Set(showStability ? computeStability(buildings, terrain).unsupportedIds : []),
+    [showStability, buildings, terrain]
+  );
+  const roomAnalysis = useMemo(() => (showRooms ? analyzeRooms(buildings) : null), [showRooms, buildings]);
+  const gapSet = useMemo(() => new Set(roomAnalysis?.gapBuildingIds ?? []), [roomAnalysis]);
   const [ghostPos, setGhostPos] = useState<[number, number, number]>([0, 0, 0]);
   const [ghostRot, setGhostRot] = useState<[number, number, number]>([0, 0, 0]);
   const [ghostIsValid, setGhostIsValid] = useState(true);
+  const [ghostIssues, setGhostIssues] = useState<PlacementIssue[]>([]);
   const [manualRot, setManualRot] = useState(0);
   const [verticalOffset, setVerticalOffset] = useState(0);
+  const [ghostGroup, setGhostGroup] = useState<BuildingData[]>([]);
+
+  // When pasting, the anchor piece drives snapping and rotation increments
+  const snapType = placementGroup ? placementGroup.anchorType : activeType;
+  const showTriangleLattice = !isSelectMode && getBuildingDef(snapType).snap.lattice === 'triangle';
+  // Only single pieces report pillars; a pasted group has one per foundation
+  const ghostPillarHeight = useMemo(
+    () => (terrain && !placementGroup
+      ? getPillarHeight(terrain, { id: '', type: snapType, position: ghostPos, rotation: ghostRot })
+      : 0),
+    [terrain, placementGroup, snapType, ghostPos, ghostRot]
+  );
 
   const groupRef = useRef<THREE.Group>(null);
   const lastMousePos = useRef<[number, number]>([0, 0]);
   const lastSnapTargetRef = useRef<PreferredSnapTarget | null>(null);
+  const ghostIssuesKeyRef = useRef('');
+  const snapCandidatesRef = useRef<{ candidates: PreferredSnapTarget[]; index: number }>({ candidates: [], index: -1 });
 
   // Reset vertical offset when changing building type
   useEffect(() => {
     setVerticalOffset(0);
   }, [activeType]);
 
+  // Start a paste with the group's original orientation
+  useEffect(() => {
+    if (placementGroup) {
+      setManualRot(placementGroup.anchorRotation);
+      setVerticalOffset(0);
+    } else {
+      setGhostGroup([]);
+    }
+  }, [placementGroup]);
+
   // Handle keyboard controls (Rotation and Vertical Stacking)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       const key = e.key.toLowerCase();
 
+      // Clipboard (Ctrl+C / Ctrl+X act on the selection, Ctrl+V starts a paste)
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'c' && isSelectMode) {
+          copySelected();
+        } else if (key === 'x' && isSelectMode) {
+          cutSelected();
+        } else if (key === 'v') {
+          e.preventDefault();
+          startPaste();
+        }
+      }
+
+      // Cancel an active paste
+      if (key === 'escape' && placementGroup) {
+        cancelPlacement();
+        return;
+      }
+
+      // Toggle between build and select modes
+      if (key === 'v' && !e.ctrlKey && !e.metaKey) {
+        setInteractionMode(isSelectMode ? 'build' : 'select');
+        return;
+      }
+
+      // Selection mode: bulk operations on the selected set
+      if (isSelectMode) {
+        const step = e.shiftKey ? UNIT_SIZE / 2 : UNIT_SIZE;
+        if (key === 'delete' || key === 'backspace') {
+          e.preventDefault();
+          deleteSelected();
+        } else if (key === 'escape') {
+          clearSelection();
+        } else if (key === 'd' && (e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          duplicateSelected();
+        } else if (key === 'r') {
+          rotateSelected(e.shiftKey ? -1 : 1);
+        } else if (e.key === 'ArrowUp') {
+          e.preventDefault();
+          moveSelected([0, 0, -step]);
+        } else if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          moveSelected([0, 0, step]);
+        } else if (e.key === 'ArrowLeft') {
+          e.preventDefault();
+          moveSelected([-step, 0, 0]);
+        } else if (e.key === 'ArrowRight') {
+          e.preventDefault();
+          moveSelected([step, 0, 0]);
+        } else if (e.key === 'PageUp') {
+          e.preventDefault();
+          moveSelected([0, HALF_WALL_HEIGHT, 0]);
+        } else if (e.key === 'PageDown') {
+          e.preventDefault();
+          moveSelected([0, -HALF_WALL_HEIGHT, 0]);
+        }
+        return;
+      }
+
+      // Cycle through the ranked snap candidates at the cursor (Shift+Tab goes back)
+      if (key === 'tab') {
+        e.preventDefault();
+        const { candidates, index } = snapCandidatesRef.current;
+        // With no candidate chosen (index -1), the first press picks the first or last one
+        if (candidates.length > (index < 0 ? 0 : 1)) {
+          const step = e.shiftKey ? -1 : 1;
+          const next = (index + step + candidates.length + (index < 0 && step < 0 ? 1 : 0)) % candidates.length;
+          lastSnapTargetRef.current = candidates[next];
+
+          if (debugRecorder?.isRecording) {
+            debugRecorder.addFrame({
+              timestamp: Date.now(),
+              cursorPosition: null,
+              cursorScreen: lastMousePos.current,
+              activeType,
+              rotation: manualRot,
+              keyPress: { key: 'Tab', action: `cycle-snap ${next + 1}/${candidates.length}` },
+            });
+          }
+        }
+        return;
+      }
+
       // Rotation
       if (key === 'r') {
-        const rotIncrement = getRotationIncrement(activeType);
+        const rotIncrement = getRotationIncrement(snapType);
         const newRot = manualRot + rotIncrement;
         setManualRot(newRot);
+        // A candidate pinned with Tab carries its own rotation; unpin it so R takes effect
+        // while the target itself stays sticky
+        if (lastSnapTargetRef.current?.candidateKey) {
+          lastSnapTargetRef.current = { ...lastSnapTargetRef.current, candidateKey: undefined };
+        }
 
         // Record key press
         if (debugRecorder?.isRecording) {
@@ -933,11 +1352,66 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [manualRot, activeType, debugRecorder, manualHeight]);
+  }, [manualRot, activeType, snapType, debugRecorder, manualHeight, isSelectMode, setInteractionMode, deleteSelected, clearSelection, duplicateSelected, rotateSelected, moveSelected, placementGroup, copySelected, cutSelected, startPaste, cancelPlacement]);
+
+  // Drag-rectangle selection (select mode only). Listens on the canvas element
+  // directly so drags starting over empty sky still work.
+  useEffect(() => {
+    if (!isSelectMode) return;
+    const canvas = gl.domElement;
+    let dragStart: [number, number] | null = null;
+    let additive = false;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || e.shiftKey) return;
+      dragStart = [e.clientX, e.clientY];
+      additive = e.ctrlKey || e.metaKey;
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!dragStart) return;
+      const dragDistance = Math.hypot(e.clientX - dragStart[0], e.clientY - dragStart[1]);
+      if (dragDistance > 5) {
+        setSelectionRect({ start: dragStart, end: [e.clientX, e.clientY] });
+      }
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!dragStart) return;
+      const rect = { start: dragStart, end: [e.clientX, e.clientY] as [number, number] };
+      dragStart = null;
+      if (!useGameStore.getState().selectionRect) return; // Plain click, handled by handlePlace
+      setSelectionRect(null);
+
+      const ids = getBuildingsInScreenRect(
+        useGameStore.getState().buildings,
+        camera,
+        rect,
+        canvas.getBoundingClientRect()
+      );
+      selectBuildings(ids, additive ? 'add' : 'replace');
+    };
+
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      setSelectionRect(null);
+    };
+  }, [isSelectMode, gl, camera, selectBuildings, setSelectionRect]);
+
+  // Only re-render the tooltip when the reasons change, not every frame
+  const updateGhostIssues = (issues: PlacementIssue[]) => {
+    const key = issues.map((issue) => issue.message).join('\n');
+    if (key === ghostIssuesKeyRef.current) return;
+    ghostIssuesKeyRef.current = key;
+    setGhostIssues(issues);
+  };
 
   // Update ghost position based on mouse
   useFrame(() => {
-    if (!groupRef.current) return;
+    if (!groupRef.current || isSelectMode) return;
     raycaster.setFromCamera(mouse, camera);
     const intersects = raycaster.intersectObjects(groupRef.current.children, true);
 
@@ -949,13 +1423,14 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
 
       // Debug callback for recording
       const debugCallback = debugRecorder?.isRecording
-        ? (snapCalculation: any) => {
+        ? (snapCalculation: DebugSnapCalculation) => {
           debugRecorder.addFrame({
             timestamp: Date.now(),
             cursorPosition: [targetPoint.x, targetPoint.y, targetPoint.z],
             cursorScreen: [mouse.x, mouse.y],
-            activeType,
+            activeType: snapType,
             rotation: manualRot,
+            preferredTarget: serializeSnapTarget(preferredTarget),
             snapCalculation,
           });
         }
@@ -973,12 +1448,15 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
       const snap = calculateSnap(
         targetPoint,
         buildings,
-        activeType,
+        snapType,
         manualRot,
         debugCallback,
-        preferredTarget || undefined
+        preferredTarget || undefined,
+        { terrain, buildRules }
       );
       if (snap) {
+        snapCandidatesRef.current = { candidates: snap.candidates, index: snap.candidateIndex };
+        setSnapCycle(snap.candidateIndex >= 0 ? { index: snap.candidateIndex, total: snap.candidates.length } : null);
         if (snap.snappedToSocket && snap.snapTarget) {
           lastSnapTargetRef.current = snap.snapTarget;
         } else if (!snap.snappedToSocket) {
@@ -986,7 +1464,7 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
         }
         // Calculate base Y position
         // If autoHeight is ON and we snapped to a socket, use socket's world Y
-        // Otherwise use snap.position.y (which is 0 for grid fallback)
+        // Otherwise use snap.position.y (the ground height for grid fallback)
         let baseY = snap.position.y;
         if (autoHeight && snap.socketWorldY !== null) {
           baseY = snap.socketWorldY;
@@ -997,7 +1475,29 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
 
         setGhostPos([snap.position.x, finalY, snap.position.z]);
         setGhostRot([snap.rotation.x, snap.rotation.y, snap.rotation.z]);
-        setGhostIsValid(snap.isValid);
+
+        if (placementGroup) {
+          // Lay out the whole group around the snapped anchor
+          const pieces = instantiatePlacementGroup(
+            placementGroup,
+            [snap.position.x, finalY, snap.position.z],
+            snap.rotation.y
+          );
+          setGhostGroup(pieces);
+          const collisions = findOverlappingBuildings(pieces, buildings);
+          setPlacementCollisions(collisions);
+          // The group's own collisions and rule checks replace the anchor's
+          const issues = [
+            ...snap.issues.filter((issue) => !GROUP_CHECKED_ISSUES.has(issue.kind)),
+            ...buildings.filter((b) => collisions.includes(b.id)).map(createOverlapIssue),
+            ...findBuildRuleIssues(pieces, buildings, buildRules),
+          ];
+          setGhostIsValid(issues.length === 0);
+          updateGhostIssues(issues);
+        } else {
+          setGhostIsValid(snap.isValid);
+          updateGhostIssues(snap.issues);
+        }
       }
     }
   });
@@ -1009,22 +1509,51 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
 
     e.stopPropagation();
 
+    // Find the building that was clicked by checking intersection
+    // Traverse up to find the building group with userData.buildingId
+    let clickedId: string | null = null;
+    let current: THREE.Object3D | null = e.object;
+    while (current) {
+      if (current.userData?.buildingId) {
+        clickedId = current.userData.buildingId;
+        break;
+      }
+      current = current.parent;
+    }
+
     // Shift+Click = Demolish mode
     if (e.nativeEvent.shiftKey) {
-      // Find the building that was clicked by checking intersection
-      const clickedObject = e.object;
-      // Traverse up to find the building group with userData.buildingId
-      let current: THREE.Object3D | null = clickedObject;
-      while (current) {
-        if (current.userData?.buildingId) {
-          handleRemoveBuilding(current.userData.buildingId, e);
-          return;
-        }
-        current = current.parent;
+      if (clickedId) {
+        handleRemoveBuilding(clickedId, e);
+      }
+      return;
+    }
+
+    // Select mode: click selects, Ctrl+Click toggles, click on empty ground clears
+    if (isSelectMode) {
+      const additive = e.nativeEvent.ctrlKey || e.nativeEvent.metaKey;
+      if (clickedId) {
+        selectBuildings([clickedId], additive ? 'toggle' : 'replace');
+      } else if (!additive) {
+        clearSelection();
       }
       return;
     }
 
+    // Paste placement: commit the whole ghost group as one undo step
+    if (placementGroup) {
+      if (!ghostIsValid) return;
+      const pieces = instantiatePlacementGroup(placementGroup, ghostPos, ghostRot[1]);
+      addBuildings(
+        pieces,
+        placementGroup.label
+          ?? (placementGroup.name ? `Place "${placementGroup.name}"` : `Paste ${pieces.length} Pieces`)
+      );
+      // Pastes and prefabs stay armed for repeated placement
+      if (placementGroup.placeOnce) cancelPlacement();
+      return;
+    }
+
     // Normal placement
     if (ghostIsValid) {
       const newBuilding: BuildingData = {
@@ -1034,86 +1563,207 @@ const Planner = ({ materials, debugRecorder }: PlannerProps) => {
         rotation: [...ghostRot],
       };
       addBuilding(newBuilding);
-
-      // Record placement
-      if (debugRecorder?.isRecording) {
-        debugRecorder.addFrame({
-          timestamp: Date.now(),
-          cursorPosition: ghostPos,
-          cursorScreen: lastMousePos.current,
-          activeType,
-          rotation: manualRot,
-          buildingAction: {
-            action: 'place',
-            buildingId: newBuilding.id,
-            buildingType: newBuilding.type,
-            position: newBuilding.position,
-            rotation: newBuilding.rotation,
-          },
-        });
-      }
     }
   };
 
   // Handle building removal
   const handleRemoveBuilding = (id: string, e: ThreeEvent<MouseEvent>) => {
     e.stopPropagation();
-    const removedBuilding = buildings.find((b) => b.id === id);
+    // The debug recorder picks the removal up from the store
     removeBuilding(id);
-
-    // Record removal
-    if (debugRecorder?.isRecording && removedBuilding) {
-      debugRecorder.addFrame({
-        timestamp: Date.now(),
-        cursorPosition: null,
-        cursorScreen: lastMousePos.current,
-        activeType,
-        rotation: manualRot,
-        buildingAction: {
-          action: 'remove',
-          buildingId: removedBuilding.id,
-          buildingType: removedBuilding.type,
-          position: removedBuilding.position,
-          rotation: removedBuilding.rotation,
-        },
-      });
-    }
   };
 
   return (
     <group ref={groupRef} onClick={handlePlace}>
-      {/* Ground plane */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]}>
-        <planeGeometry args={[1000, 1000]} />
-        <meshStandardMaterial color="#E6C288" roughness={0.9} />
-      </mesh>
-
-      {/* Grid */}
-      <gridHelper args={[1000, 250, 0x000000, 0x6b5c45]} position={[0, 0.01, 0]} />
+      <SiteGround terrain={terrain} buildRules={buildRules} buildings={buildings} triangleLattice={showTriangleLattice} />
 
       {/* Placed buildings */}
       {buildings.map((b) => (
         <group key={b.id} userData={{ buildingId: b.id }}>
-          <BuildingMesh {...b} wireframe={showWireframe} materials={materials} palette={palette} />
+          <BuildingMesh
+            {...b}
+            wireframe={showWireframe}
+            materials={materials}
+            palette={palette}
+            outlineColor={
+              collisionSet.has(b.id) ? COLLISION_COLOR
+                : selectedSet.has(b.id) ? SELECTION_COLOR
+                : gapSet.has(b.id) ? GAP_COLOR
+                : unsupportedSet.has(b.id) ? UNSUPPORTED_COLOR
+                : undefined
+            }
+          />
         </group>
       ))}
 
+      {/* Room gaps */}
+      {roomAnalysis && <RoomGapOverlay gaps={roomAnalysis.rooms.flatMap((r) => r.gaps)} />}
+
       {/* Socket debug visualization */}
       {showSocketDebug && <SocketDebugVisualizer />}
 
-      {/* Snap Colliders (Invisible) */}
-      <SnapColliders />
-
-      {/* Ghost preview */}
-      <BuildingMesh
-        type={activeType}
-        position={ghostPos}
-        rotation={ghostRot}
-        isGhost
-        isValid={ghostIsValid}
-        materials={materials}
-        palette={palette}
-      />
+      {/* Snap Colliders (Invisible) - skipped in select mode so clicks reach the pieces */}
+      {!isSelectMode && <SnapColliders />}
+
+      {/* Paste preview: the whole group as ghosts */}
+      {!isSelectMode && placementGroup && ghostGroup.map((piece, idx) => (
+        <BuildingMesh
+          key={`paste-ghost-${idx}`}
+          type={piece.type}
+          position={piece.position}
+          rotation={piece.rotation}
+          isGhost
+          isValid={ghostIsValid}
+          materials={materials}
+          palette={palette}
+        />
+      ))}
+
+      {/* Ghost preview (hidden while selecting or pasting) */}
+      {!isSelectMode && !placementGroup && (
+        <BuildingMesh
+          type={activeType}
+          position={ghostPos}
+          rotation={ghostRot}
+          isGhost
+          isValid={ghostIsValid}
+          materials={materials}
+          palette={palette}
+        />
+      )}
+
+      {/* Why the ghost can't be placed */}
+      {!isSelectMode && !ghostIsValid && ghostIssues.length > 0 && (
+        <PlacementIssueTooltip position={ghostPos} issues={ghostIssues} />
+      )}
+      {!isSelectMode && ghostPillarHeight >= PILLAR_REPORT_MIN && (
+        <PillarLabel position={ghostPos} height={ghostPillarHeight} />
+      )}
+    </group>
+  );
+};
+
+// =============================================================================
+// Debug Playback View (replays a loaded recording instead of the planner)
+// =============================================================================
+
+const CANDIDATE_COLOR = '#FF8C00';
+const SELECTED_CANDIDATE_COLOR = '#4ade80';
+const CURSOR_COLOR = '#FFFFFF';
+/** Distance within which a candidate counts as the one the ghost ended up at */
+const SELECTED_CANDIDATE_TOLERANCE = 0.01;
+
+const distance3 = (a: [number, number, number], b: [number, number, number]) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Candidate markers for one snap calculation: a sphere at each resulting
+ * position (the chosen one larger and green) and a line along each target
+ * edge for edge snaps. Rejected candidates have no placement and aren't shown.
+ */
+const SnapCandidateOverlay = ({ snap }: { snap: DebugSnapCalculation }) => {
+  // Recordings before selectedCandidate was filled in: use the candidate the ghost sits on
+  const selected = useMemo(() => {
+    if (typeof snap.selectedCandidate === 'number') return snap.selectedCandidate;
+    if (!snap.snappedToSocket) return null;
+    const idx = snap.candidates.findIndex(
+      (c) => c.resultingPosition && distance3(c.resultingPosition, snap.finalPosition) < SELECTED_CANDIDATE_TOLERANCE
+    );
+    return idx >= 0 ? idx : null;
+  }, [snap]);
+
+  const edgeGeometry = useMemo(() => {
+    const points: number[] = [];
+    snap.candidates.forEach((c) => {
+      // Candidates from before the version 3 schema have no kind and no edge
+      if (c.kind === 'edge' && c.resultingPosition) points.push(...c.targetEdge[0], ...c.targetEdge[1]);
+    });
+    return points.length > 0
+      ? new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(points, 3))
+      : null;
+  }, [snap]);
+  useEffect(() => () => edgeGeometry?.dispose(), [edgeGeometry]);
+
+  return (
+    <group>
+      {edgeGeometry && (
+        <lineSegments geometry={edgeGeometry}>
+          <lineBasicMaterial color={CANDIDATE_COLOR} depthTest={false} />
+        </lineSegments>
+      )}
+      {snap.candidates.map((c, idx) => c.resultingPosition && (
+        <mesh key={idx} position={c.resultingPosition} renderOrder={1}>
+          <sphereGeometry args={[idx === selected ? 0.3 : 0.18, 12, 12]} />
+          <meshBasicMaterial
+            color={idx === selected ? SELECTED_CANDIDATE_COLOR : CANDIDATE_COLOR}
+            transparent
+            opacity={0.8}
+            depthTest={false}
+          />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+interface PlaybackViewProps {
+  materials: MaterialsType;
+  playback: PlaybackState;
+}
+
+/**
+ * The recorded layout, ghost, cursor and snap candidates at the current
+ * playback frame, on the recording's terrain and claim area. Read-only:
+ * the planner's layout is left untouched.
+ */
+const PlaybackView = ({ materials, playback }: PlaybackViewProps) => {
+  const { showWireframe, activeBuildingSet } = useGameStore();
+  const palette = PALETTES[activeBuildingSet];
+  const { recording, currentFrameIndex } = playback;
+
+  const buildings = useMemo(
+    () => getBuildingsAtFrame(recording, currentFrameIndex),
+    [recording, currentFrameIndex]
+  );
+  // The site the snaps were recorded on, not the planner's current one
+  const { terrain, buildRules } = useMemo(() => getRecordedPlacementContext(recording), [recording]);
+  const snapFrame = getSnapFrameAt(recording, currentFrameIndex);
+  const snap = snapFrame?.snapCalculation;
+  const cursor = recording.frames[currentFrameIndex].cursorPosition ?? snap?.rayPoint ?? null;
+  const triangleLattice = !!snapFrame && getBuildingDef(snapFrame.activeType).snap.lattice === 'triangle';
+
+  return (
+    <group>
+      <SiteGround terrain={terrain} buildRules={buildRules} buildings={buildings} triangleLattice={triangleLattice} />
+
+      {buildings.map((b) => (
+        <BuildingMesh key={b.id} {...b} wireframe={showWireframe} materials={materials} palette={palette} />
+      ))}
+
+      {snapFrame && snap && (
+        <>
+          <BuildingMesh
+            type={snapFrame.activeType}
+            position={snap.finalPosition}
+            rotation={snap.finalRotation}
+            isGhost
+            isValid={snap.isValid}
+            materials={materials}
+            palette={palette}
+          />
+          <SnapCandidateOverlay snap={snap} />
+          {!snap.isValid && snap.issues && snap.issues.length > 0 && (
+            <PlacementIssueTooltip position={snap.finalPosition} issues={snap.issues} />
+          )}
+        </>
+      )}
+
+      {cursor && (
+        <mesh position={[cursor[0], cursor[1] + 0.02, cursor[2]]} rotation={[-Math.PI / 2, 0, 0]} renderOrder={1}>
+          <ringGeometry args={[0.25, 0.4, 24]} />
+          <meshBasicMaterial color={CURSOR_COLOR} side={THREE.DoubleSide} depthTest={false} />
+        </mesh>
+      )}
     </group>
   );
 };
@@ -1303,9 +1953,10 @@ export interface GameSceneProps {
     isRecording: boolean;
     addFrame: (frame: any) => void;
   };
+  playback?: PlaybackState | null;  // Replaces the planner while a recording is being played back
 }
 
-export const GameScene = ({ debugRecorder }: GameSceneProps) => {
+export const GameScene = ({ debugRecorder, playback }: GameSceneProps) => {
   const { is2DMode } = useGameStore();
 
   const materials = useMemo(
@@ -1328,7 +1979,11 @@ export const GameScene = ({ debugRecorder }: GameSceneProps) => {
       <CameraController is2DMode={is2DMode} controlsRef={controlsRef} />
       <Compass />
       <AxisLabels is2DMode={is2DMode} />
-      <Planner materials={materials} debugRecorder={debugRecorder} />
+      {playback ? (
+        <PlaybackView materials={materials} playback={playback} />
+      ) : (
+        <Planner materials={materials} debugRecorder={debugRecorder} />
+      )}
       <OrbitControls
         ref={controlsRef}
         makeDefault
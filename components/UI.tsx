@@ -1,6 +1,19 @@
 import React from 'react';
-import { BuildingType, BuildingSet } from '../types';
-import { Square, Triangle, BrickWall, Scan, Tent, TrendingUp, Grid3X3, Save, FolderOpen, Circle, DoorOpen, Minus, Download, Upload, Bug, Video, VideoOff, FilmIcon, Compass, ArrowUpFromLine, ArrowUpDown, Palette } from 'lucide-react';
+import { BuildingType, BuildingSet, SavedPrefab } from '../types';
+import type { BillOfMaterials } from '../utils/billOfMaterials';
+import type { RoomAnalysis, RoomGapKind } from '../utils/rooms';
+import type { Terrain, FoundationPillar } from '../utils/terrain';
+import type { BudgetLine } from '../utils/buildRules';
+import type { BuildRules, BuildRulesPreset } from '../data/buildRules';
+import type { DebugFilterableFrameKind, DebugRecorderSettings, PlaybackState } from '../types/debug';
+import { RECORDER_WINDOW_OPTIONS } from '../utils/debugFrameBuffer';
+import { describeFrame, getFrameTime, getRecordingDuration } from '../utils/debugPlayback';
+import type { SnapDiffGroup, SnapDifferenceKind } from '../utils/snapReplay';
+import { RESOURCE_LABELS } from '../data/resources';
+import type { HistoryEntry } from '../store/history';
+import type { InteractionMode, SnapCycle } from '../store/gameStore';
+import { ScreenRect, normalizeRect } from '../utils/selection';
+import { Square, Triangle, BrickWall, Scan, Tent, TrendingUp, Grid3X3, Save, FolderOpen, Circle, DoorOpen, Minus, Download, Upload, Bug, Video, VideoOff, FilmIcon, Compass, ArrowUpFromLine, ArrowUpDown, Palette, Undo2, Redo2, History, MousePointer2, Copy, Trash2, RotateCw, RotateCcw, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Scissors, ClipboardCopy, ClipboardPaste, Boxes, BookmarkPlus, X, Link, Merge, TriangleAlert, ClipboardList, FileSpreadsheet, FileJson, Unlink, Home, Mountain, LandPlot, Play, Pause, StepBack, StepForward, GitCompare, Anchor } from 'lucide-react';
 
 interface UIProps {
   activeType: BuildingType;
@@ -10,8 +23,21 @@ interface UIProps {
   onLoad: () => void;
   onExport: () => void;
   onImport: () => void;
+  onShare: () => void;
+  onMergeImport: () => void;
+  onImportTerrain: () => void;
+  showBuildRules: boolean;
+  setShowBuildRules: (b: boolean) => void;
   showWireframe: boolean;
   setShowWireframe: (b: boolean) => void;
+  showBillOfMaterials: boolean;
+  setShowBillOfMaterials: (b: boolean) => void;
+  showRooms: boolean;
+  setShowRooms: (b: boolean) => void;
+  showStability: boolean;
+  setShowStability: (b: boolean) => void;
+  cascadeRemoval: boolean;
+  setCascadeRemoval: (b: boolean) => void;
   showSocketDebug: boolean;
   setShowSocketDebug: (b: boolean) => void;
   is2DMode: boolean;
@@ -22,6 +48,16 @@ interface UIProps {
   setManualHeight: (b: boolean) => void;
   activeBuildingSet: BuildingSet;
   setActiveBuildingSet: (set: BuildingSet) => void;
+  interactionMode: InteractionMode;
+  setInteractionMode: (mode: InteractionMode) => void;
+  prefabs: SavedPrefab[];
+  activePrefabId: string | null;
+  onPickPrefab: (id: string) => void;
+  onSavePrefab: () => void;
+  canSavePrefab: boolean;
+  onImportPrefab: () => void;
+  onExportPrefab: (id: string) => void;
+  onDeletePrefab: (id: string) => void;
   debugRecorder: {
     isRecording: boolean;
     frameCount: number;
@@ -32,7 +68,7 @@ interface UIProps {
   };
 }
 
-const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onImport, showWireframe, setShowWireframe, showSocketDebug, setShowSocketDebug, is2DMode, setIs2DMode, autoHeight, setAutoHeight, manualHeight, setManualHeight, activeBuildingSet, setActiveBuildingSet, debugRecorder }: UIProps) => {
+const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onImport, onShare, onMergeImport, onImportTerrain, showBuildRules, setShowBuildRules, showWireframe, setShowWireframe, showBillOfMaterials, setShowBillOfMaterials, showRooms, setShowRooms, showStability, setShowStability, cascadeRemoval, setCascadeRemoval, showSocketDebug, setShowSocketDebug, is2DMode, setIs2DMode, autoHeight, setAutoHeight, manualHeight, setManualHeight, activeBuildingSet, setActiveBuildingSet, interactionMode, setInteractionMode, prefabs, activePrefabId, onPickPrefab, onSavePrefab, canSavePrefab, onImportPrefab, onExportPrefab, onDeletePrefab, debugRecorder }: UIProps) => {
   const tools = [
     // Foundations
     { type: BuildingType.SQUARE_FOUNDATION, icon: Square, label: 'Square', category: 'foundation' },
@@ -67,7 +103,7 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
             key={t.type}
             onClick={() => setActiveType(t.type)}
             className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
-              ${activeType === t.type
+              ${activeType === t.type && !activePrefabId
                 ? 'bg-dune-gold text-black scale-105 font-bold shadow-[0_0_15px_rgba(212,160,86,0.5)]'
                 : 'hover:bg-white/10 text-gray-300'
               }`}
@@ -87,7 +123,7 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
             key={t.type}
             onClick={() => setActiveType(t.type)}
             className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
-              ${activeType === t.type
+              ${activeType === t.type && !activePrefabId
                 ? 'bg-dune-gold text-black scale-105 font-bold shadow-[0_0_15px_rgba(212,160,86,0.5)]'
                 : 'hover:bg-white/10 text-gray-300'
               }`}
@@ -107,7 +143,7 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
             key={t.type}
             onClick={() => setActiveType(t.type)}
             className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
-              ${activeType === t.type
+              ${activeType === t.type && !activePrefabId
                 ? 'bg-dune-gold text-black scale-105 font-bold shadow-[0_0_15px_rgba(212,160,86,0.5)]'
                 : 'hover:bg-white/10 text-gray-300'
               }`}
@@ -127,7 +163,7 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
             key={t.type}
             onClick={() => setActiveType(t.type)}
             className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
-              ${activeType === t.type
+              ${activeType === t.type && !activePrefabId
                 ? 'bg-dune-gold text-black scale-105 font-bold shadow-[0_0_15px_rgba(212,160,86,0.5)]'
                 : 'hover:bg-white/10 text-gray-300'
               }`}
@@ -140,12 +176,70 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
 
       <div className="w-px bg-white/20 mx-1"></div>
 
+      {/* Prefabs */}
+      <div className="flex gap-2">
+        {prefabs.map((p) => (
+          <div key={p.id} className="relative group">
+            <button
+              onClick={() => onPickPrefab(p.id)}
+              className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+                ${activePrefabId === p.id
+                  ? 'bg-dune-gold text-black scale-105 font-bold shadow-[0_0_15px_rgba(212,160,86,0.5)]'
+                  : 'hover:bg-white/10 text-gray-300'
+                }`}
+              title={`${p.name} (${p.buildings.length} pieces)`}
+            >
+              <Boxes size={20} />
+              <span className="text-[9px] sm:text-[10px] uppercase tracking-wider text-center leading-tight truncate w-full">{p.name}</span>
+            </button>
+            <div className="absolute -top-2 -right-2 hidden group-hover:flex gap-0.5">
+              <button
+                onClick={() => onExportPrefab(p.id)}
+                className="p-0.5 rounded bg-black/80 text-green-300 hover:bg-green-900"
+                title="Export Prefab to File"
+              >
+                <Download size={12} />
+              </button>
+              <button
+                onClick={() => onDeletePrefab(p.id)}
+                className="p-0.5 rounded bg-black/80 text-red-300 hover:bg-red-900"
+                title="Delete Prefab"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-col gap-1 justify-center">
+          <button
+            onClick={onSavePrefab}
+            disabled={!canSavePrefab}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/10 text-gray-300 transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+            title={canSavePrefab ? 'Save Selection as Prefab' : 'Select pieces first (V) to save a prefab'}
+          >
+            <BookmarkPlus size={16} />
+            <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Prefab</span>
+          </button>
+          <button
+            onClick={onImportPrefab}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-blue-900/50 text-blue-300 transition-all"
+            title="Import Prefab from File"
+          >
+            <Upload size={16} />
+            <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Import</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="w-px bg-white/20 mx-1"></div>
+
       {/* Actions */}
       <div className="flex gap-2">
         <button
           onClick={onSave}
           className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-white/10 text-gray-300 transition-all w-16 sm:w-20"
-          title="Quick Save to Browser"
+          title="Save to Current Blueprint"
         >
           <Save size={20} />
           <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Save</span>
@@ -154,7 +248,7 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
         <button
           onClick={onLoad}
           className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-white/10 text-gray-300 transition-all w-16 sm:w-20"
-          title="Quick Load from Browser"
+          title="Open Blueprint Manager"
         >
           <FolderOpen size={20} />
           <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Load</span>
@@ -178,6 +272,43 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
           <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Import</span>
         </button>
 
+        <button
+          onClick={onMergeImport}
+          className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-blue-900/50 text-blue-300 transition-all w-16 sm:w-20"
+          title="Import Blueprint into Current Layout"
+        >
+          <Merge size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Merge</span>
+        </button>
+
+        <button
+          onClick={onImportTerrain}
+          className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-blue-900/50 text-blue-300 transition-all w-16 sm:w-20"
+          title="Import Terrain Heightmap (image or JSON)"
+        >
+          <Mountain size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Terrain</span>
+        </button>
+
+        <button
+          onClick={onShare}
+          className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-purple-900/50 text-purple-300 transition-all w-16 sm:w-20"
+          title="Copy Share Link"
+        >
+          <Link size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Share</span>
+        </button>
+
+        <button
+          onClick={() => setInteractionMode(interactionMode === 'select' ? 'build' : 'select')}
+          className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+               ${interactionMode === 'select' ? 'bg-dune-gold/70 text-black' : 'hover:bg-white/10 text-gray-300'}`}
+          title="Toggle Select Mode (V)"
+        >
+          <MousePointer2 size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Select</span>
+        </button>
+
         <button
           onClick={() => setShowWireframe(!showWireframe)}
           className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
@@ -187,6 +318,56 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
           <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">View</span>
         </button>
 
+        <button
+          onClick={() => setShowBillOfMaterials(!showBillOfMaterials)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+               ${showBillOfMaterials ? 'bg-teal-500/50 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+          title="Toggle Bill of Materials"
+        >
+          <ClipboardList size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Cost</span>
+        </button>
+
+        <button
+          onClick={() => setShowRooms(!showRooms)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+               ${showRooms ? 'bg-sky-500/50 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+          title="Toggle Room Analysis"
+        >
+          <Home size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Rooms</span>
+        </button>
+
+        <button
+          onClick={() => setShowBuildRules(!showBuildRules)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+               ${showBuildRules ? 'bg-amber-500/50 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+          title="Toggle Claim Area and Piece Limits"
+        >
+          <LandPlot size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Claim</span>
+        </button>
+
+        <button
+          onClick={() => setShowStability(!showStability)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+               ${showStability ? 'bg-orange-500/50 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+          title="Outline pieces with no support path to the ground"
+        >
+          <Anchor size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Support</span>
+        </button>
+
+        <button
+          onClick={() => setCascadeRemoval(!cascadeRemoval)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
+               ${cascadeRemoval ? 'bg-orange-500/50 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+          title="Also demolish pieces left without support when removing a piece"
+        >
+          <Unlink size={20} />
+          <span className="text-[9px] sm:text-[10px] uppercase tracking-wider">Cascade</span>
+        </button>
+
         <button
           onClick={() => setShowSocketDebug(!showSocketDebug)}
           className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 w-16 sm:w-20
@@ -265,7 +446,7 @@ const UI = ({ activeType, setActiveType, onClear, onSave, onLoad, onExport, onIm
 };
 
 // Build version - increment dev suffix for local testing; bump release on deploy
-export const BUILD_VERSION = '1.9.0-dev.27';
+export const BUILD_VERSION = '1.9.0-dev.52';
 
 export const Instructions = () => (
   <div className="absolute top-4 left-4 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-l-2 border-dune-gold max-w-xs pointer-events-auto">
@@ -274,7 +455,11 @@ export const Instructions = () => (
       <li><strong className="text-white">Left Click</strong>: Place Structure</li>
       <li><strong className="text-white">Shift + Click</strong>: Demolish</li>
       <li><strong className="text-white">R</strong>: Rotate Preview</li>
+      <li><strong className="text-white">Tab / Shift + Tab</strong>: Cycle Snap Options</li>
       <li><strong className="text-white">Arrow Up/Down</strong>: Stack Height</li>
+      <li><strong className="text-white">Ctrl + Z / Ctrl + Shift + Z</strong>: Undo / Redo</li>
+      <li><strong className="text-white">V</strong>: Select Mode (Click, Ctrl + Click, Drag Box)</li>
+      <li><strong className="text-white">Ctrl + C / X / V</strong>: Copy / Cut / Paste Group (Esc cancels)</li>
       <li><strong className="text-white">Drag</strong>: Orbit Camera</li>
     </ul>
     <div className="mt-3 pt-2 border-t border-white/20 text-[10px] text-white/50">
@@ -287,14 +472,68 @@ interface DebugRecorderUIProps {
   debugRecorder: {
     isRecording: boolean;
     frameCount: number;
+    settings: DebugRecorderSettings;
+    setSettings: (settings: DebugRecorderSettings) => void;
     startRecording: () => void;
     stopRecording: () => void;
     downloadRecording: () => void;
     clearRecording: () => void;
   };
+  onLoadRecording: () => void;
 }
 
-export const DebugRecorderUI = ({ debugRecorder }: DebugRecorderUIProps) => (
+// Placements and other layout changes are always recorded, so they have no toggle
+const FRAME_KIND_LABELS: Record<DebugFilterableFrameKind, string> = {
+  snap: 'Snaps',
+  key: 'Keys',
+};
+
+const formatWindow = (seconds: number | null) =>
+  seconds === null ? 'Everything' : seconds < 60 ? `Last ${seconds}s` : `Last ${seconds / 60} min`;
+
+/**
+ * What the next recording keeps: a time window, change-only snap frames and frame kinds.
+ */
+const RecorderSettingsControls = ({ settings, disabled, onChange }: {
+  settings: DebugRecorderSettings;
+  disabled: boolean;
+  onChange: (settings: DebugRecorderSettings) => void;
+}) => (
+  <fieldset disabled={disabled} className="space-y-1 text-xs disabled:opacity-50">
+    <select
+      value={settings.windowSeconds ?? ''}
+      onChange={(e) => onChange({ ...settings, windowSeconds: e.target.value === '' ? null : Number(e.target.value) })}
+      className="w-full bg-black/40 border border-white/20 rounded px-2 py-1 text-white/80"
+      title="How much of the session a recording keeps"
+    >
+      {RECORDER_WINDOW_OPTIONS.map((seconds) => (
+        <option key={seconds ?? 'all'} value={seconds ?? ''}>{formatWindow(seconds)}</option>
+      ))}
+    </select>
+    <label className="flex items-center gap-1.5" title="Skip snap frames whose result matches the previous one">
+      <input
+        type="checkbox"
+        checked={settings.changesOnly}
+        onChange={(e) => onChange({ ...settings, changesOnly: e.target.checked })}
+      />
+      Changes only
+    </label>
+    <div className="flex gap-3">
+      {(Object.keys(FRAME_KIND_LABELS) as DebugFilterableFrameKind[]).map((kind) => (
+        <label key={kind} className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={settings.kinds[kind]}
+            onChange={(e) => onChange({ ...settings, kinds: { ...settings.kinds, [kind]: e.target.checked } })}
+          />
+          {FRAME_KIND_LABELS[kind]}
+        </label>
+      ))}
+    </div>
+  </fieldset>
+);
+
+export const DebugRecorderUI = ({ debugRecorder, onLoadRecording }: DebugRecorderUIProps) => (
   <div className="absolute top-4 right-4 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-r-2 border-red-500 max-w-xs pointer-events-auto">
     <h3 className="text-red-400 font-bold mb-2 uppercase flex items-center gap-2">
       <Video size={16} className={debugRecorder.isRecording ? 'animate-pulse text-red-500' : ''} />
@@ -338,8 +577,24 @@ export const DebugRecorderUI = ({ debugRecorder }: DebugRecorderUIProps) => (
           <Download size={14} className="inline mr-1" />
           Save
         </button>
+
+        <button
+          onClick={onLoadRecording}
+          disabled={debugRecorder.isRecording}
+          className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed rounded text-white text-xs font-bold uppercase transition-colors"
+          title="Play back a saved recording"
+        >
+          <Upload size={14} className="inline mr-1" />
+          Load
+        </button>
       </div>
 
+      <RecorderSettingsControls
+        settings={debugRecorder.settings}
+        disabled={debugRecorder.isRecording}
+        onChange={debugRecorder.setSettings}
+      />
+
       {debugRecorder.frameCount > 0 && (
         <button
           onClick={debugRecorder.clearRecording}
@@ -350,10 +605,660 @@ export const DebugRecorderUI = ({ debugRecorder }: DebugRecorderUIProps) => (
       )}
 
       <div className="mt-3 pt-2 border-t border-white/20 text-[10px] text-white/40">
-        Records cursor, snaps, placements for debugging
+        Records cursor, snaps, placements for debugging; Load plays one back
+      </div>
+    </div>
+  </div>
+);
+
+interface HistoryPanelProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Number of history entries listed in the panel (the stack itself is deeper)
+const HISTORY_VISIBLE_ENTRIES = 8;
+
+export const HistoryPanel = ({ past, future, onUndo, onRedo }: HistoryPanelProps) => {
+  // Newest first: pending redo entries on top (dimmed), then the undo stack
+  const redoEntries = [...future];
+  const undoEntries = [...past].reverse();
+
+  return (
+    <div className="absolute top-72 right-4 w-64 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-r-2 border-dune-gold pointer-events-auto">
+      <h3 className="text-dune-gold font-bold mb-2 uppercase flex items-center gap-2">
+        <History size={16} />
+        History
+      </h3>
+
+      <div className="flex gap-2 mb-2">
+        <button
+          onClick={onUndo}
+          disabled={past.length === 0}
+          className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white text-xs font-bold uppercase transition-colors"
+          title="Undo (Ctrl+Z)"
+        >
+          <Undo2 size={14} className="inline mr-1" />
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={future.length === 0}
+          className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white text-xs font-bold uppercase transition-colors"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <Redo2 size={14} className="inline mr-1" />
+          Redo
+        </button>
+      </div>
+
+      {past.length === 0 && future.length === 0 ? (
+        <div className="text-xs text-white/40">No changes yet</div>
+      ) : (
+        <ul className="space-y-0.5 text-xs">
+          {redoEntries.slice(-HISTORY_VISIBLE_ENTRIES).map((entry) => (
+            <li key={entry.id} className="truncate text-white/30 line-through">
+              {entry.label}
+            </li>
+          ))}
+          {undoEntries.slice(0, HISTORY_VISIBLE_ENTRIES).map((entry, i) => (
+            <li key={entry.id} className={`truncate ${i === 0 ? 'text-dune-gold' : 'text-white/70'}`}>
+              {entry.label}
+              {entry.commands.length > 1 && (
+                <span className="ml-1 text-white/40">({entry.commands.length})</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface SelectionPanelProps {
+  selectedCount: number;
+  blockedCount: number;  // Pieces that blocked the last move, rotate or duplicate
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onRotate: (direction: 1 | -1) => void;
+  onMove: (delta: [number, number, number]) => void;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
+  canPaste: boolean;
+  moveStep: number;
+}
+
+export const SelectionPanel = ({ selectedCount, blockedCount, onDelete, onDuplicate, onRotate, onMove, onCopy, onCut, onPaste, canPaste, moveStep }: SelectionPanelProps) => {
+  const buttonClass = 'p-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white transition-colors';
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <div className="absolute top-1/2 left-4 -translate-y-1/2 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-l-2 border-dune-gold pointer-events-auto">
+      <h3 className="text-dune-gold font-bold mb-2 uppercase flex items-center gap-2">
+        <MousePointer2 size={16} />
+        Selection
+      </h3>
+      <div className="text-xs text-white/60 mb-2">{selectedCount} selected</div>
+      {blockedCount > 0 && (
+        <div className="text-xs text-red-400 mb-2 flex items-center gap-1">
+          <TriangleAlert size={12} />
+          Blocked by {blockedCount} piece{blockedCount === 1 ? '' : 's'}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-1 w-fit mb-2">
+        <div />
+        <button onClick={() => onMove([0, 0, -moveStep])} disabled={!hasSelection} className={buttonClass} title="Move (Arrow Up)">
+          <ArrowUp size={14} />
+        </button>
+        <div />
+        <button onClick={() => onMove([-moveStep, 0, 0])} disabled={!hasSelection} className={buttonClass} title="Move (Arrow Left)">
+          <ArrowLeft size={14} />
+        </button>
+        <button onClick={() => onMove([0, 0, moveStep])} disabled={!hasSelection} className={buttonClass} title="Move (Arrow Down)">
+          <ArrowDown size={14} />
+        </button>
+        <button onClick={() => onMove([moveStep, 0, 0])} disabled={!hasSelection} className={buttonClass} title="Move (Arrow Right)">
+          <ArrowRight size={14} />
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        <button onClick={() => onRotate(-1)} disabled={!hasSelection} className={buttonClass} title="Rotate Left (Shift+R)">
+          <RotateCcw size={14} />
+        </button>
+        <button onClick={() => onRotate(1)} disabled={!hasSelection} className={buttonClass} title="Rotate Right (R)">
+          <RotateCw size={14} />
+        </button>
+        <button onClick={onDuplicate} disabled={!hasSelection} className={buttonClass} title="Duplicate (Ctrl+D)">
+          <Copy size={14} />
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={!hasSelection}
+          className="p-1.5 bg-red-800 hover:bg-red-700 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white transition-colors"
+          title="Delete (Del)"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div className="flex gap-1 mt-1">
+        <button onClick={onCopy} disabled={!hasSelection} className={buttonClass} title="Copy (Ctrl+C)">
+          <ClipboardCopy size={14} />
+        </button>
+        <button onClick={onCut} disabled={!hasSelection} className={buttonClass} title="Cut (Ctrl+X)">
+          <Scissors size={14} />
+        </button>
+        <button onClick={onPaste} disabled={!canPaste} className={buttonClass} title="Paste (Ctrl+V)">
+          <ClipboardPaste size={14} />
+        </button>
       </div>
     </div>
+  );
+};
+
+interface BillOfMaterialsPanelProps {
+  bom: BillOfMaterials;
+  onExportCsv: () => void;
+  onExportJson: () => void;
+}
+
+/**
+ * Live piece counts and resource totals for the current layout.
+ */
+export const BillOfMaterialsPanel = ({ bom, onExportCsv, onExportJson }: BillOfMaterialsPanelProps) => (
+  <div className="absolute bottom-44 right-4 w-64 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-r-2 border-dune-gold pointer-events-auto">
+    <h3 className="text-dune-gold font-bold mb-2 uppercase flex items-center gap-2">
+      <ClipboardList size={16} />
+      Materials
+    </h3>
+
+    {bom.pieceCount === 0 ? (
+      <div className="text-white/40 text-xs italic">Nothing built yet</div>
+    ) : (
+      <>
+        <div className="max-h-32 overflow-y-auto space-y-0.5 mb-2">
+          {bom.lines.map((line) => (
+            <div key={line.type} className="flex justify-between text-xs">
+              <span className="text-white/70 truncate">{line.label}</span>
+              <span className="text-white/50">×{line.count}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="pt-2 border-t border-white/20 space-y-0.5">
+          {bom.resources.map((resource) => (
+            <div key={resource} className="flex justify-between text-xs">
+              <span>{RESOURCE_LABELS[resource]}</span>
+              <span className="text-dune-gold font-bold">{(bom.totals[resource] ?? 0).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      </>
+    )}
+
+    <div className="flex gap-2 mt-3">
+      <button
+        onClick={onExportCsv}
+        disabled={bom.pieceCount === 0}
+        className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white text-xs font-bold uppercase transition-colors"
+      >
+        <FileSpreadsheet size={14} className="inline mr-1" />
+        CSV
+      </button>
+      <button
+        onClick={onExportJson}
+        disabled={bom.pieceCount === 0}
+        className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white text-xs font-bold uppercase transition-colors"
+      >
+        <FileJson size={14} className="inline mr-1" />
+        JSON
+      </button>
+    </div>
+  </div>
+);
+
+const GAP_LABELS: Record<RoomGapKind, string> = {
+  'missing-wall': 'open side',
+  'half-wall': 'half wall',
+  'missing-roof': 'no roof',
+};
+
+const describeGaps = (gaps: { kind: RoomGapKind }[]): string => {
+  const counts = new Map<RoomGapKind, number>();
+  gaps.forEach((g) => counts.set(g.kind, (counts.get(g.kind) ?? 0) + 1));
+  return [...counts.entries()].map(([kind, count]) => `${count} ${GAP_LABELS[kind]}`).join(', ');
+};
+
+interface RoomsPanelProps {
+  analysis: RoomAnalysis;
+}
+
+/**
+ * Rooms found in the layout with floor area, doorways and any gaps
+ * that keep them from being sealed.
+ */
+export const RoomsPanel = ({ analysis }: RoomsPanelProps) => (
+  <div className="absolute bottom-44 left-4 w-64 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-l-2 border-dune-gold pointer-events-auto">
+    <h3 className="text-dune-gold font-bold mb-2 uppercase flex items-center gap-2">
+      <Home size={16} />
+      Rooms
+      <span className="text-white/50 text-xs normal-case font-normal ml-auto">
+        {analysis.enclosedCount}/{analysis.rooms.length} sealed
+      </span>
+    </h3>
+
+    {analysis.rooms.length === 0 ? (
+      <div className="text-white/40 text-xs italic">No walled floors yet</div>
+    ) : (
+      <div className="max-h-40 overflow-y-auto space-y-1.5">
+        {analysis.rooms.map((room, index) => (
+          <div key={room.id} className="text-xs">
+            <div className="flex justify-between">
+              <span className={room.enclosed ? 'text-green-400' : 'text-red-400'}>
+                Room {index + 1}
+              </span>
+              <span className="text-white/50">{Math.round(room.floorArea)} m²</span>
+            </div>
+            <div className="text-white/40">
+              {room.openings.length} doorway{room.openings.length === 1 ? '' : 's'}
+              {room.gaps.length > 0 && ` · ${describeGaps(room.gaps)}`}
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+interface BuildRulesPanelProps {
+  rules: BuildRules;
+  presets: BuildRulesPreset[];
+  budget: BudgetLine[];
+  canSetTotem: boolean;
+  onSelectPreset: (id: string) => void;
+  onChangeRadius: (radius: number) => void;
+  onChangeTotal: (total: number | null) => void;
+  onSetTotem: () => void;
+}
+
+/**
+ * Claim area and piece limit settings with the remaining budget per cap.
+ */
+export const BuildRulesPanel = ({ rules, presets, budget, canSetTotem, onSelectPreset, onChangeRadius, onChangeTotal, onSetTotem }: BuildRulesPanelProps) => (
+  <div className="absolute bottom-44 right-72 w-64 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-r-2 border-dune-gold pointer-events-auto">
+    <h3 className="text-dune-gold font-bold mb-2 uppercase flex items-center gap-2">
+      <LandPlot size={16} />
+      Claim
+    </h3>
+
+    <div className="text-xs space-y-1.5">
+      <select
+        value={rules.presetId}
+        onChange={(e) => onSelectPreset(e.target.value)}
+        className="w-full bg-black/40 border border-white/20 rounded px-2 py-1 text-white/80"
+      >
+        {presets.map((p) => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+        {!presets.some((p) => p.id === rules.presetId) && <option value={rules.presetId}>Custom</option>}
+      </select>
+
+      {rules.zone?.kind === 'radius' && (
+        <>
+          <label className="flex justify-between items-center">
+            <span>Radius</span>
+            <input
+              type="number"
+              min={1}
+              value={rules.zone.radius}
+              onChange={(e) => Number(e.target.value) > 0 && onChangeRadius(Number(e.target.value))}
+              className="w-20 bg-black/40 border border-white/20 rounded px-2 py-0.5 text-right text-white/80"
+            />
+          </label>
+          <div className="flex justify-between items-center">
+            <span>Totem</span>
+            <button
+              onClick={onSetTotem}
+              disabled={!canSetTotem}
+              className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-white/30 disabled:cursor-not-allowed rounded text-white text-[10px] uppercase transition-colors"
+              title={canSetTotem ? 'Center the claim on the selected piece' : 'Select one piece (V) to use as the totem'}
+            >
+              {rules.zone.totemId ? 'Move to selection' : 'Set from selection'}
+            </button>
+          </div>
+        </>
+      )}
+      {rules.zone?.kind === 'polygon' && (
+        <div className="text-white/40">Fixed plot, {rules.zone.polygon.length} corners</div>
+      )}
+
+      <label className="flex justify-between items-center">
+        <span>Piece cap</span>
+        <input
+          type="number"
+          min={1}
+          placeholder="none"
+          value={rules.limits.total ?? ''}
+          onChange={(e) => onChangeTotal(e.target.value === '' ? null : Math.max(1, Math.round(Number(e.target.value))))}
+          className="w-20 bg-black/40 border border-white/20 rounded px-2 py-0.5 text-right text-white/80"
+        />
+      </label>
+    </div>
+
+    {budget.length > 0 && (
+      <div className="pt-2 mt-2 border-t border-white/20 space-y-0.5">
+        {budget.map((line) => (
+          <div key={line.type ?? 'total'} className="flex justify-between text-xs">
+            <span className="text-white/70 truncate">{line.label}</span>
+            <span className={line.used >= line.limit ? 'text-red-400 font-bold' : 'text-white/50'}>
+              {Math.max(0, line.limit - line.used)} left
+              <span className="text-white/30"> ({line.used}/{line.limit})</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
   </div>
 );
 
+interface TerrainPanelProps {
+  terrain: Terrain;
+  heightRange: [number, number];
+  pillars: FoundationPillar[];
+  onReplace: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * Imported terrain with its height range and the foundations that need pillars.
+ */
+export const TerrainPanel = ({ terrain, heightRange, pillars, onReplace, onRemove }: TerrainPanelProps) => (
+  <div className="absolute bottom-44 left-1/2 -translate-x-1/2 w-64 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-b-2 border-dune-gold pointer-events-auto">
+    <h3 className="text-dune-gold font-bold mb-2 uppercase flex items-center gap-2">
+      <Mountain size={16} />
+      Terrain
+      <span className="text-white/50 text-xs normal-case font-normal ml-auto truncate">{terrain.name}</span>
+    </h3>
+
+    <div className="text-xs space-y-0.5">
+      <div className="flex justify-between">
+        <span>Height</span>
+        <span className="text-white/50">{heightRange[0].toFixed(1)} – {heightRange[1].toFixed(1)} m</span>
+      </div>
+      <div className="flex justify-between">
+        <span>On pillars</span>
+        <span className="text-white/50">
+          {pillars.length} foundation{pillars.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      {pillars.length > 0 && (
+        <div className="flex justify-between">
+          <span>Tallest pillar</span>
+          <span className="text-dune-gold font-bold">{pillars[0].height.toFixed(1)} m</span>
+        </div>
+      )}
+    </div>
+
+    <div className="flex gap-2 mt-3">
+      <button
+        onClick={onReplace}
+        className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs font-bold uppercase transition-colors"
+      >
+        Replace
+      </button>
+      <button
+        onClick={onRemove}
+        className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-red-900 rounded text-white text-xs font-bold uppercase transition-colors"
+      >
+        Remove
+      </button>
+    </div>
+  </div>
+);
+
+interface PlaybackPanelProps {
+  playback: PlaybackState;
+  speeds: number[];
+  onTogglePlaying: () => void;
+  onStep: (delta: number) => void;
+  onSeek: (index: number) => void;
+  onSetSpeed: (speed: number) => void;
+  onDiff: () => void;
+  onClose: () => void;
+}
+
+const formatPlaybackTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+/**
+ * Transport controls and frame details for a debug recording being played back.
+ */
+export const PlaybackPanel = ({ playback, speeds, onTogglePlaying, onStep, onSeek, onSetSpeed, onDiff, onClose }: PlaybackPanelProps) => {
+  const { recording, currentFrameIndex, isPlaying, playbackSpeed } = playback;
+  const frame = recording.frames[currentFrameIndex];
+  const lastIndex = recording.frames.length - 1;
+  const snap = frame.snapCalculation;
+
+  return (
+    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 w-[36rem] max-w-[95vw] bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-b-2 border-red-500 pointer-events-auto">
+      <h3 className="text-red-400 font-bold mb-2 uppercase flex items-center gap-2">
+        <FilmIcon size={16} />
+        Playback
+        <span className="text-white/50 text-xs normal-case font-normal ml-auto truncate">
+          {recording.metadata?.description ?? new Date(recording.startTime).toLocaleString()}
+        </span>
+      </h3>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onStep(-1)}
+          disabled={currentFrameIndex === 0}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-30 rounded transition-colors"
+          title="Previous frame"
+        >
+          <StepBack size={14} />
+        </button>
+        <button
+          onClick={onTogglePlaying}
+          className="p-1.5 bg-red-600 hover:bg-red-700 rounded transition-colors"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button
+          onClick={() => onStep(1)}
+          disabled={currentFrameIndex === lastIndex}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-30 rounded transition-colors"
+          title="Next frame"
+        >
+          <StepForward size={14} />
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={currentFrameIndex}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-red-500"
+        />
+
+        <select
+          value={playbackSpeed}
+          onChange={(e) => onSetSpeed(Number(e.target.value))}
+          className="bg-gray-800 rounded px-1 py-1 text-xs"
+          title="Playback speed"
+        >
+          {speeds.map((speed) => (
+            <option key={speed} value={speed}>{speed}×</option>
+          ))}
+        </select>
+
+        <button
+          onClick={onDiff}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Replay the recording against the current snap code"
+        >
+          <GitCompare size={14} />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Close playback"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="mt-2 text-xs flex justify-between text-white/50">
+        <span>
+          Frame <span className="text-white/80">{currentFrameIndex + 1}/{lastIndex + 1}</span>
+          {' · '}
+          {formatPlaybackTime(getFrameTime(recording, currentFrameIndex))} / {formatPlaybackTime(getRecordingDuration(recording))}
+        </span>
+        <span>{frame.activeType}</span>
+      </div>
+      <div className="text-xs flex justify-between">
+        <span className="text-dune-gold">{describeFrame(frame)}</span>
+        {snap && (
+          <span className={snap.isValid ? 'text-green-400' : 'text-red-400'}>
+            {snap.isValid ? 'Valid' : snap.issues?.map((issue) => issue.message).join(', ') || 'Invalid'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DIFF_KINDS: SnapDifferenceKind[] = ['candidate', 'position', 'rotation', 'validity', 'missing'];
+
+interface SnapDiffPanelProps {
+  groups: SnapDiffGroup[];
+  currentFrameIndex: number;
+  onSeek: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Snap frames of the loaded recording that the current code resolves
+ * differently, by piece type. Clicking a frame jumps playback to it.
+ */
+export const SnapDiffPanel = ({ groups, currentFrameIndex, onSeek, onClose }: SnapDiffPanelProps) => {
+  const differing = groups.reduce((sum, group) => sum + group.differing.length, 0);
+  const snapCount = groups.reduce((sum, group) => sum + group.snapCount, 0);
+
+  return (
+    <div className="absolute top-1/2 left-4 -translate-y-1/2 w-80 bg-dune-ui/80 p-4 rounded-lg text-white/80 font-mono text-sm border-l-2 border-red-500 pointer-events-auto">
+      <h3 className="text-red-400 font-bold mb-2 uppercase flex items-center gap-2">
+        <GitCompare size={16} />
+        Snap Diff
+        <span className="text-white/50 text-xs normal-case font-normal ml-auto">
+          {differing}/{snapCount} differ
+        </span>
+        <button onClick={onClose} className="text-white/50 hover:text-white" title="Close diff">
+          <X size={14} />
+        </button>
+      </h3>
+
+      {snapCount === 0 ? (
+        <div className="text-white/40 text-xs italic">No snap frames in this recording</div>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {groups.map((group) => (
+            <div key={group.activeType} className="text-xs">
+              <div className="flex justify-between">
+                <span className={group.differing.length > 0 ? 'text-red-400' : 'text-green-400'}>{group.activeType}</span>
+                <span className="text-white/50">{group.differing.length}/{group.snapCount}</span>
+              </div>
+              {group.differing.length > 0 && (
+                <div className="text-white/40">
+                  {DIFF_KINDS.filter((kind) => group.counts[kind] > 0).map((kind) => `${group.counts[kind]} ${kind}`).join(' · ')}
+                </div>
+              )}
+              {group.differing.map((result) => (
+                <button
+                  key={result.frameIndex}
+                  onClick={() => onSeek(result.frameIndex)}
+                  className={`block w-full text-left px-1 rounded hover:bg-white/10 ${result.frameIndex === currentFrameIndex ? 'bg-white/10' : ''}`}
+                >
+                  <span className="text-dune-gold">Frame {result.frameIndex + 1}</span>
+                  {result.differences.map((difference) => (
+                    <div key={difference.kind} className="text-white/60 break-words">{difference.message}</div>
+                  ))}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Which of the snap placements at the cursor the ghost is using.
+ */
+export const SnapCycleIndicator = ({ cycle }: { cycle: SnapCycle }) => (
+  <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-dune-ui/80 px-3 py-1 rounded text-white/80 font-mono text-xs border-b-2 border-dune-gold">
+    Snap <span className="text-dune-gold font-bold">{cycle.index + 1}/{cycle.total}</span>
+    <span className="text-white/50"> · Tab to cycle</span>
+  </div>
+);
+
+interface PlacementPanelProps {
+  title: string;
+  pieceCount: number;
+  collisionCount: number;
+  onCancel: () => void;
+}
+
+/**
+ * Status of the ghost group being placed (paste, prefab or merge import),
+ * including a collision report against existing pieces.
+ */
+export const PlacementPanel = ({ title, pieceCount, collisionCount, onCancel }: PlacementPanelProps) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-dune-ui/80 px-4 py-2 rounded-lg text-white/80 font-mono text-sm border-b-2 border-dune-gold pointer-events-auto flex items-center gap-4">
+    <div>
+      <div className="text-dune-gold font-bold uppercase">{title}</div>
+      <div className="text-[10px] text-white/50">{pieceCount} pieces · R to rotate · Click to place</div>
+    </div>
+
+    {collisionCount > 0 ? (
+      <div className="flex items-center gap-1 text-red-400 text-xs">
+        <TriangleAlert size={14} />
+        Overlaps {collisionCount} existing {collisionCount === 1 ? 'piece' : 'pieces'}
+      </div>
+    ) : (
+      <div className="text-green-400 text-xs">No collisions</div>
+    )}
+
+    <button
+      onClick={onCancel}
+      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs uppercase transition-colors"
+      title="Cancel (Esc)"
+    >
+      Cancel
+    </button>
+  </div>
+);
+
+/**
+ * Drag rectangle drawn over the canvas while box-selecting.
+ */
+export const SelectionBoxOverlay = ({ rect }: { rect: ScreenRect | null }) => {
+  if (!rect) return null;
+  const { minX, maxX, minY, maxY } = normalizeRect(rect);
+
+  return (
+    <div
+      className="fixed border border-dune-gold bg-dune-gold/10 pointer-events-none"
+      style={{ left: minX, top: minY, width: maxX - minX, height: maxY - minY }}
+    />
+  );
+};
+
 export default UI;
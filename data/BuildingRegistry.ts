@@ -1,6 +1,9 @@
 import * as THREE from 'three';
 import {
     BuildingType,
+    BuildingSet,
+    ResourceType,
+    ResourceCost,
     SocketType,
     EdgeRole,
     UNIT_SIZE,
@@ -9,6 +12,8 @@ import {
     HALF_WALL_HEIGHT,
     TRIANGLE_APOTHEM,
     TRIANGLE_RADIUS,
+    WALL_THICKNESS,
+    ROOF_HEIGHT,
 } from '../types';
 
 // =============================================================================
@@ -46,6 +51,83 @@ export interface EdgeDef {
 // Building Definition Interface
 // =============================================================================
 
+/**
+ * Collision volume in local space: convex footprint polygons on the XZ plane,
+ * extruded from the placement point (y = 0) up to `height`.
+ */
+export interface ColliderDef {
+    polygons: [number, number][][];
+    height: number;
+}
+
+/**
+ * How the ghost is turned to meet a target socket.
+ *   - oppose:        ghost socket normal faces the target normal (default)
+ *   - outward:       ghost socket normal points along the target normal
+ *   - stack:         like outward, and the manual rotation preference is ignored
+ *   - perpendicular: quarter turn from the target piece, toward the target socket normal
+ */
+export type SnapAlignment = 'oppose' | 'outward' | 'stack' | 'perpendicular';
+
+/**
+ * Limits which sockets of matching target pieces may be snapped to.
+ * A filter matches by `types` if given, otherwise by `category`.
+ */
+export interface SnapTargetFilter {
+    types?: BuildingType[];
+    category?: BuildingCategory;
+    sockets: SocketType[];
+    diagonalNormalsOnly?: boolean;  // Only sockets whose normal is at 45° (curved edges)
+}
+
+/**
+ * Alignment for one kind of connection. The first matching rule wins.
+ */
+export interface SnapAlignmentRule {
+    targetSocket: SocketType;
+    ghostSocket?: SocketType;
+    targetTypes?: BuildingType[];
+    alignment: SnapAlignment;
+}
+
+/**
+ * Score adjustment for target sockets when the cursor is above `minCursorY`
+ * (negative favours the socket, lower scores win).
+ */
+export interface SnapScoreBias {
+    sockets: SocketType[];
+    minCursorY: number;
+    bias: number;
+}
+
+/**
+ * Grid used when nothing is in snap range.
+ *   - square:   centers of the UNIT_SIZE ground grid cells
+ *   - edge:     midpoints of grid lines, along the line the piece runs on (half offset)
+ *   - triangle: strips of triangles standing on the grid lines, so their bases meet square edges
+ */
+export type GridLattice = 'square' | 'edge' | 'triangle';
+
+/**
+ * Per-type snapping behaviour, read by calculateSnap.
+ */
+export interface SnapRules {
+    /** Snap edge to edge against foundation edges (otherwise by point sockets only) */
+    edgeToEdge: boolean;
+
+    /** Grid fallback for free placement */
+    lattice: GridLattice;
+
+    /** First matching filter restricts the target sockets; unmatched targets allow all of `compatibleWith` */
+    targets: SnapTargetFilter[];
+
+    /** When the cursor is above `minCursorY` and any of these sockets is in reach, only they are considered */
+    preferTargets?: { sockets: SocketType[]; minCursorY: number };
+
+    alignments: SnapAlignmentRule[];
+    scoreBiases: SnapScoreBias[];
+}
+
 /**
  * Complete definition for a building type.
  * Contains all data needed for geometry, snapping, and rendering.
@@ -71,6 +153,15 @@ export interface BuildingDef {
 
     /** Socket types this building can snap TO on other buildings */
     compatibleWith: SocketType[];
+
+    /** Target restrictions, alignment and scoring used when snapping */
+    snap: SnapRules;
+
+    /** Resources needed to build one piece, per building set */
+    costs: Record<BuildingSet, ResourceCost>;
+
+    /** Volume used for placement overlap checks */
+    collider: ColliderDef;
 }
 
 // =============================================================================
@@ -81,6 +172,197 @@ const HALF_SIZE = UNIT_SIZE / 2;
 const FOUNDATION_TOP_Y = FOUNDATION_HEIGHT;
 const STRUCTURE_TOP_Y = WALL_HEIGHT; // Top surface of structure pieces (3.0)
 
+/**
+ * Per-set costs from a piece's base material amount.
+ * Dune Men pieces are plain stone; Harkonnen pieces trade some of it for steel.
+ */
+const pieceCosts = (base: number): Record<BuildingSet, ResourceCost> => ({
+    [BuildingSet.DUNE_MAN]: {
+        [ResourceType.GRANITE]: base,
+        [ResourceType.PLASTONE]: Math.ceil(base / 3),
+    },
+    [BuildingSet.HARKONNEN]: {
+        [ResourceType.PLASTONE]: base,
+        [ResourceType.STEEL_INGOT]: Math.ceil(base / 5),
+        [ResourceType.SILICONE_BLOCK]: Math.ceil(base / 10),
+    },
+});
+
+// =============================================================================
+// Snap Rules
+// =============================================================================
+
+const FOUNDATION_SNAP: SnapRules = {
+    edgeToEdge: true,
+    lattice: 'square',
+    targets: [],
+    alignments: [],
+    scoreBiases: [],
+};
+
+const ROOF_SNAP: SnapRules = {
+    edgeToEdge: false,
+    lattice: 'square',
+    targets: [],
+    alignments: [],
+    scoreBiases: [],
+};
+
+const TRIANGLE_FOUNDATION_SNAP: SnapRules = { ...FOUNDATION_SNAP, lattice: 'triangle' };
+const TRIANGLE_ROOF_SNAP: SnapRules = { ...ROOF_SNAP, lattice: 'triangle' };
+
+const INCLINE_SOCKETS = [SocketType.INCLINE_TOP, SocketType.INCLINE_BOTTOM];
+
+/** Above ground, pieces that can sit on an incline prefer it */
+const INCLINE_SOCKET_BIAS: SnapScoreBias = { sockets: INCLINE_SOCKETS, minCursorY: 0.5, bias: -0.6 };
+
+const WALL_ALIGNMENTS: SnapAlignmentRule[] = [
+    // Stacked walls follow the wall below
+    { targetSocket: SocketType.WALL_TOP, ghostSocket: SocketType.WALL_BOTTOM, alignment: 'stack' },
+    // Walls face outward on foundation sides
+    { targetSocket: SocketType.FOUNDATION_TOP, ghostSocket: SocketType.WALL_BOTTOM, alignment: 'outward' },
+];
+
+const WALL_SNAP: SnapRules = {
+    edgeToEdge: false,
+    lattice: 'edge',
+    targets: [],
+    alignments: WALL_ALIGNMENTS,
+    scoreBiases: [
+        // Prefer stacking when the cursor is above ground
+        { sockets: [SocketType.WALL_TOP], minCursorY: 0.25, bias: -1.0 },
+        INCLINE_SOCKET_BIAS,
+    ],
+};
+
+const CURVED_WALL_TYPES = [BuildingType.CURVED_WALL, BuildingType.CURVED_HALF_WALL];
+
+const CURVED_WALL_SNAP: SnapRules = {
+    edgeToEdge: false,
+    lattice: 'square',
+    targets: [
+        { types: CURVED_WALL_TYPES, sockets: [SocketType.WALL_SIDE, SocketType.WALL_TOP] },
+        // Curved walls stand on the curved edge only
+        { types: [BuildingType.CURVED_FOUNDATION, BuildingType.CURVED_STRUCTURE], sockets: [SocketType.FOUNDATION_TOP], diagonalNormalsOnly: true },
+        { category: 'wall', sockets: [SocketType.WALL_SIDE] },
+    ],
+    alignments: [
+        ...WALL_ALIGNMENTS,
+        { targetSocket: SocketType.WALL_SIDE, targetTypes: CURVED_WALL_TYPES, alignment: 'perpendicular' },
+    ],
+    scoreBiases: [INCLINE_SOCKET_BIAS],
+};
+
+const INCLINE_SNAP: SnapRules = {
+    edgeToEdge: true,
+    lattice: 'square',
+    targets: [],
+    // Above ground, chain onto other inclines rather than floors
+    preferTargets: { sockets: INCLINE_SOCKETS, minCursorY: 0.5 },
+    alignments: [],
+    scoreBiases: [INCLINE_SOCKET_BIAS],
+};
+
+// =============================================================================
+// Colliders
+// =============================================================================
+//
+// Walls straddle the foundation edge they stand on, so every non-wall
+// footprint is inset by half a wall thickness (a wall on its edge just
+// touches it), and walls are shortened by a wall thickness at each end so
+// walls meeting at a corner don't overlap.
+
+const COLLIDER_INSET = WALL_THICKNESS / 2;
+const ARC_SEGMENTS = 8;
+
+/**
+ * Move every edge of a convex polygon inward by `distance`.
+ */
+const insetPolygon = (points: [number, number][], distance: number): [number, number][] => {
+    const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+    const cz = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+
+    const lines = points.map((p, i) => {
+        const q = points[(i + 1) % points.length];
+        const length = Math.hypot(q[0] - p[0], q[1] - p[1]);
+        const dx = (q[0] - p[0]) / length;
+        const dz = (q[1] - p[1]) / length;
+        // Normal pointing toward the centroid
+        let nx = -dz;
+        let nz = dx;
+        if (nx * (cx - p[0]) + nz * (cz - p[1]) < 0) {
+            nx = -nx;
+            nz = -nz;
+        }
+        return { x: p[0] + nx * distance, z: p[1] + nz * distance, dx, dz };
+    });
+
+    // Each vertex is where the previous and next shifted edges meet
+    return lines.map((line, i) => {
+        const prev = lines[(i - 1 + lines.length) % lines.length];
+        const cross = prev.dx * line.dz - prev.dz * line.dx;
+        const t = ((line.x - prev.x) * line.dz - (line.z - prev.z) * line.dx) / cross;
+        return [prev.x + prev.dx * t, prev.z + prev.dz * t] as [number, number];
+    });
+};
+
+const footprint = (points: [number, number][], height: number): ColliderDef => ({
+    polygons: [insetPolygon(points, COLLIDER_INSET)],
+    height,
+});
+
+const wallCollider = (height: number): ColliderDef => {
+    const halfLength = HALF_SIZE - WALL_THICKNESS;
+    const halfThickness = WALL_THICKNESS / 2;
+    return {
+        polygons: [[
+            [-halfLength, -halfThickness],
+            [halfLength, -halfThickness],
+            [halfLength, halfThickness],
+            [-halfLength, halfThickness],
+        ]],
+        height,
+    };
+};
+
+// Curved pieces are quarter circles of radius UNIT_SIZE around the (-X, +Z) corner
+const arcPoint = (radius: number, t: number): [number, number] => {
+    const angle = (t * Math.PI) / 2;
+    return [-HALF_SIZE + radius * Math.cos(angle), HALF_SIZE - radius * Math.sin(angle)];
+};
+
+const SQUARE_FOOTPRINT: [number, number][] = [
+    [-HALF_SIZE, -HALF_SIZE],
+    [HALF_SIZE, -HALF_SIZE],
+    [HALF_SIZE, HALF_SIZE],
+    [-HALF_SIZE, HALF_SIZE],
+];
+
+// Base toward +Z, apex toward -Z (matches the foundation edges)
+const TRIANGLE_FOOTPRINT: [number, number][] = [
+    [-HALF_SIZE, TRIANGLE_APOTHEM],
+    [HALF_SIZE, TRIANGLE_APOTHEM],
+    [0, -TRIANGLE_RADIUS],
+];
+
+const CURVED_FOOTPRINT: [number, number][] = [
+    [-HALF_SIZE, HALF_SIZE],
+    ...Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => arcPoint(UNIT_SIZE, i / ARC_SEGMENTS)),
+];
+
+/** Quarter ring split into convex segments */
+const curvedWallCollider = (height: number): ColliderDef => {
+    const inner = UNIT_SIZE - WALL_THICKNESS;
+    return {
+        polygons: Array.from({ length: ARC_SEGMENTS }, (_, i) => {
+            const t0 = i / ARC_SEGMENTS;
+            const t1 = (i + 1) / ARC_SEGMENTS;
+            return [arcPoint(inner, t0), arcPoint(UNIT_SIZE, t0), arcPoint(UNIT_SIZE, t1), arcPoint(inner, t1)];
+        }),
+        height,
+    };
+};
+
 // =============================================================================
 // Building Definitions
 // =============================================================================
@@ -114,6 +396,9 @@ const SQUARE_FOUNDATION_DEF: BuildingDef = {
         { start: [-HALF_SIZE, 0, -HALF_SIZE], end: [-HALF_SIZE, 0, HALF_SIZE], edgeRole: EdgeRole.SIDE, socketType: SocketType.FOUNDATION_EDGE },
     ],
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: FOUNDATION_SNAP,
+    costs: pieceCosts(45),
+    collider: footprint(SQUARE_FOOTPRINT, FOUNDATION_HEIGHT),
 };
 
 const TRIANGLE_FOUNDATION_DEF: BuildingDef = {
@@ -152,6 +437,9 @@ const TRIANGLE_FOUNDATION_DEF: BuildingDef = {
         ];
     })(),
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: TRIANGLE_FOUNDATION_SNAP,
+    costs: pieceCosts(23),
+    collider: footprint(TRIANGLE_FOOTPRINT, FOUNDATION_HEIGHT),
 };
 
 const TRIANGLE_FOUNDATION_2_DEF: BuildingDef = {
@@ -193,6 +481,9 @@ const TRIANGLE_FOUNDATION_2_DEF: BuildingDef = {
         ];
     })(),
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: TRIANGLE_FOUNDATION_SNAP,
+    costs: pieceCosts(23),
+    collider: footprint(TRIANGLE_FOOTPRINT, FOUNDATION_HEIGHT),
 };
 
 const CURVED_FOUNDATION_DEF: BuildingDef = {
@@ -219,6 +510,9 @@ const CURVED_FOUNDATION_DEF: BuildingDef = {
         { start: [HALF_SIZE, 0, HALF_SIZE], end: [HALF_SIZE, 0, -HALF_SIZE], edgeRole: EdgeRole.SIDE, socketType: SocketType.FOUNDATION_EDGE },
     ],
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: FOUNDATION_SNAP,
+    costs: pieceCosts(35),
+    collider: footprint(CURVED_FOOTPRINT, FOUNDATION_HEIGHT),
 };
 
 // =============================================================================
@@ -251,6 +545,9 @@ const SQUARE_STRUCTURE_DEF: BuildingDef = {
         { start: [-HALF_SIZE, 0, -HALF_SIZE], end: [-HALF_SIZE, 0, HALF_SIZE], edgeRole: EdgeRole.SIDE, socketType: SocketType.FOUNDATION_EDGE },
     ],
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: FOUNDATION_SNAP,
+    costs: pieceCosts(90),
+    collider: footprint(SQUARE_FOOTPRINT, WALL_HEIGHT),
 };
 
 const TRIANGLE_STRUCTURE_DEF: BuildingDef = {
@@ -289,6 +586,9 @@ const TRIANGLE_STRUCTURE_DEF: BuildingDef = {
         ];
     })(),
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: TRIANGLE_FOUNDATION_SNAP,
+    costs: pieceCosts(45),
+    collider: footprint(TRIANGLE_FOOTPRINT, WALL_HEIGHT),
 };
 
 const CURVED_STRUCTURE_DEF: BuildingDef = {
@@ -314,6 +614,9 @@ const CURVED_STRUCTURE_DEF: BuildingDef = {
         { start: [HALF_SIZE, 0, HALF_SIZE], end: [HALF_SIZE, 0, -HALF_SIZE], edgeRole: EdgeRole.SIDE, socketType: SocketType.FOUNDATION_EDGE },
     ],
     compatibleWith: [SocketType.FOUNDATION_EDGE],
+    snap: FOUNDATION_SNAP,
+    costs: pieceCosts(70),
+    collider: footprint(CURVED_FOOTPRINT, WALL_HEIGHT),
 };
 
 const WALL_DEF: BuildingDef = {
@@ -337,6 +640,9 @@ const WALL_DEF: BuildingDef = {
         { start: [HALF_SIZE, WALL_HEIGHT, 0], end: [-HALF_SIZE, WALL_HEIGHT, 0], edgeRole: EdgeRole.SIDE, socketType: SocketType.WALL_TOP },
     ],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_TOP],
+    snap: WALL_SNAP,
+    costs: pieceCosts(30),
+    collider: wallCollider(WALL_HEIGHT),
 };
 
 const HALF_WALL_DEF: BuildingDef = {
@@ -356,6 +662,9 @@ const HALF_WALL_DEF: BuildingDef = {
         { start: [HALF_SIZE, HALF_WALL_HEIGHT, 0], end: [-HALF_SIZE, HALF_WALL_HEIGHT, 0], edgeRole: EdgeRole.SIDE, socketType: SocketType.WALL_TOP },
     ],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_TOP],
+    snap: WALL_SNAP,
+    costs: pieceCosts(15),
+    collider: wallCollider(HALF_WALL_HEIGHT),
 };
 
 const WINDOW_WALL_DEF: BuildingDef = {
@@ -375,6 +684,9 @@ const WINDOW_WALL_DEF: BuildingDef = {
         { start: [HALF_SIZE, WALL_HEIGHT, 0], end: [-HALF_SIZE, WALL_HEIGHT, 0], edgeRole: EdgeRole.SIDE, socketType: SocketType.WALL_TOP },
     ],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_TOP],
+    snap: WALL_SNAP,
+    costs: pieceCosts(30),
+    collider: wallCollider(WALL_HEIGHT),
 };
 
 const DOORWAY_DEF: BuildingDef = {
@@ -394,6 +706,9 @@ const DOORWAY_DEF: BuildingDef = {
         { start: [HALF_SIZE, WALL_HEIGHT, 0], end: [-HALF_SIZE, WALL_HEIGHT, 0], edgeRole: EdgeRole.SIDE, socketType: SocketType.WALL_TOP },
     ],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_TOP],
+    snap: WALL_SNAP,
+    costs: pieceCosts(25),
+    collider: wallCollider(WALL_HEIGHT),
 };
 
 const CURVED_WALL_DEF: BuildingDef = {
@@ -413,6 +728,9 @@ const CURVED_WALL_DEF: BuildingDef = {
     })(),
     edges: [],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_TOP, SocketType.WALL_SIDE],
+    snap: CURVED_WALL_SNAP,
+    costs: pieceCosts(35),
+    collider: curvedWallCollider(WALL_HEIGHT),
 };
 
 const CURVED_HALF_WALL_DEF: BuildingDef = {
@@ -432,6 +750,9 @@ const CURVED_HALF_WALL_DEF: BuildingDef = {
     })(),
     edges: [],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_TOP, SocketType.WALL_SIDE],
+    snap: CURVED_WALL_SNAP,
+    costs: pieceCosts(18),
+    collider: curvedWallCollider(HALF_WALL_HEIGHT),
 };
 
 const SQUARE_ROOF_DEF: BuildingDef = {
@@ -448,8 +769,18 @@ const SQUARE_ROOF_DEF: BuildingDef = {
     ],
     edges: [],
     compatibleWith: [SocketType.WALL_TOP, SocketType.ROOF_EDGE],
+    snap: ROOF_SNAP,
+    costs: pieceCosts(45),
+    collider: footprint(SQUARE_FOOTPRINT, ROOF_HEIGHT),
 };
 
+// Roof edges face the opposite way to the triangle foundation's, so its apex points +Z
+const TRIANGLE_ROOF_FOOTPRINT: [number, number][] = [
+    [-HALF_SIZE, -TRIANGLE_APOTHEM],
+    [0, TRIANGLE_RADIUS],
+    [HALF_SIZE, -TRIANGLE_APOTHEM],
+];
+
 const TRIANGLE_ROOF_DEF: BuildingDef = {
     type: BuildingType.TRIANGLE_ROOF,
     category: 'roof',
@@ -466,6 +797,9 @@ const TRIANGLE_ROOF_DEF: BuildingDef = {
     })(),
     edges: [],
     compatibleWith: [SocketType.WALL_TOP, SocketType.ROOF_EDGE],
+    snap: TRIANGLE_ROOF_SNAP,
+    costs: pieceCosts(23),
+    collider: footprint(TRIANGLE_ROOF_FOOTPRINT, ROOF_HEIGHT),
 };
 
 const STAIRS_DEF: BuildingDef = {
@@ -487,6 +821,9 @@ const STAIRS_DEF: BuildingDef = {
         { start: [HALF_SIZE, WALL_HEIGHT, -HALF_SIZE], end: [-HALF_SIZE, WALL_HEIGHT, -HALF_SIZE], edgeRole: EdgeRole.SIDE, socketType: SocketType.INCLINE_TOP },
     ],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP],
+    snap: INCLINE_SNAP,
+    costs: pieceCosts(30),
+    collider: footprint(SQUARE_FOOTPRINT, WALL_HEIGHT),
 };
 
 const STAIRS_2_DEF: BuildingDef = {
@@ -501,6 +838,9 @@ const STAIRS_2_DEF: BuildingDef = {
     ],
     edges: [],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP, SocketType.INCLINE_BOTTOM, SocketType.INCLINE_TOP],
+    snap: { ...INCLINE_SNAP, edgeToEdge: false },
+    costs: pieceCosts(30),
+    collider: footprint(SQUARE_FOOTPRINT, WALL_HEIGHT),
 };
 
 const RAMP_DEF: BuildingDef = {
@@ -522,6 +862,9 @@ const RAMP_DEF: BuildingDef = {
         { start: [HALF_SIZE, WALL_HEIGHT, -HALF_SIZE], end: [-HALF_SIZE, WALL_HEIGHT, -HALF_SIZE], edgeRole: EdgeRole.SIDE, socketType: SocketType.INCLINE_TOP },
     ],
     compatibleWith: [SocketType.FOUNDATION_TOP, SocketType.WALL_TOP],
+    snap: INCLINE_SNAP,
+    costs: pieceCosts(30),
+    collider: footprint(SQUARE_FOOTPRINT, WALL_HEIGHT),
 };
 
 // =============================================================================
@@ -591,3 +934,14 @@ export const getYOffsetFromRegistry = (type: BuildingType): number => {
 export const getRotationIncrement = (type: BuildingType): number => {
     return getBuildingDef(type).rotationIncrement;
 };
+
+/**
+ * Human-readable name for a building type (e.g. SQUARE_FOUNDATION -> "Square Foundation").
+ */
+export const formatBuildingType = (type: string): string => {
+    return type
+        .toLowerCase()
+        .split('_')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+};
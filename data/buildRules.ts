@@ -0,0 +1,89 @@
+import { BuildingType } from '../types';
+
+// =============================================================================
+// Build Rules
+// =============================================================================
+//
+// A claim area pieces must stay inside and caps on how many pieces a base may
+// have. Preset numbers are rough starting points for common claim sizes; the
+// radius and total cap can be changed in the app, everything else here.
+
+/**
+ * Area pieces must stay inside.
+ *   - radius:  circle around the totem piece (or `center` while no totem is set)
+ *   - polygon: fixed world XZ outline, e.g. a plot
+ */
+export interface BuildZone {
+  kind: 'radius' | 'polygon';
+  radius: number;                // 'radius' only
+  center: [number, number];      // 'radius' only: world XZ used without a totem
+  totemId: string | null;        // 'radius' only: piece the claim is centered on
+  polygon: [number, number][];   // 'polygon' only: world XZ outline, either winding
+}
+
+export interface PieceLimits {
+  total: number | null;                          // Cap on all pieces (null: unlimited)
+  perType: Partial<Record<BuildingType, number>>;
+}
+
+export interface BuildRules {
+  presetId: string;  // Preset the rules came from, 'custom' once edited
+  zone: BuildZone | null;
+  limits: PieceLimits;
+}
+
+export interface BuildRulesPreset {
+  id: string;
+  label: string;
+  rules: BuildRules;
+}
+
+const radiusZone = (radius: number): BuildZone => ({
+  kind: 'radius',
+  radius,
+  center: [0, 0],
+  totemId: null,
+  polygon: [],
+});
+
+const squarePlot = (size: number): BuildZone => {
+  const half = size / 2;
+  return {
+    kind: 'polygon',
+    radius: 0,
+    center: [0, 0],
+    totemId: null,
+    polygon: [[-half, -half], [half, -half], [half, half], [-half, half]],
+  };
+};
+
+// Per-type caps shared by the presets; tune them to the claim being planned
+const OPENING_LIMITS: Partial<Record<BuildingType, number>> = {
+  [BuildingType.DOORWAY]: 20,
+  [BuildingType.WINDOW_WALL]: 40,
+};
+
+export const UNLIMITED_BUILD_RULES: BuildRules = {
+  presetId: 'unlimited',
+  zone: null,
+  limits: { total: null, perType: {} },
+};
+
+export const BUILD_RULES_PRESETS: BuildRulesPreset[] = [
+  { id: 'unlimited', label: 'Unlimited', rules: UNLIMITED_BUILD_RULES },
+  {
+    id: 'small-totem',
+    label: 'Small Totem (r 20)',
+    rules: { presetId: 'small-totem', zone: radiusZone(20), limits: { total: 400, perType: OPENING_LIMITS } },
+  },
+  {
+    id: 'large-totem',
+    label: 'Large Totem (r 40)',
+    rules: { presetId: 'large-totem', zone: radiusZone(40), limits: { total: 1200, perType: OPENING_LIMITS } },
+  },
+  {
+    id: 'plot',
+    label: 'Plot (64 × 64)',
+    rules: { presetId: 'plot', zone: squarePlot(64), limits: { total: 800, perType: OPENING_LIMITS } },
+  },
+];
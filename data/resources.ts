@@ -0,0 +1,17 @@
+import { ResourceType } from '../types';
+
+// Display names for resources (BOM panel and exports)
+export const RESOURCE_LABELS: Record<ResourceType, string> = {
+  [ResourceType.GRANITE]: 'Granite Stone',
+  [ResourceType.PLASTONE]: 'Plastone',
+  [ResourceType.STEEL_INGOT]: 'Steel Ingot',
+  [ResourceType.SILICONE_BLOCK]: 'Silicone Block',
+};
+
+// Stable display/export order
+export const RESOURCE_ORDER: ResourceType[] = [
+  ResourceType.GRANITE,
+  ResourceType.PLASTONE,
+  ResourceType.STEEL_INGOT,
+  ResourceType.SILICONE_BLOCK,
+];
@@ -0,0 +1,74 @@
+import { useEffect } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { AutosaveRecord, loadAutosave, writeAutosave } from '../utils/blueprintStorage';
+
+// Delay after the last layout change before the session is written
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+
+const createAutosaveRecord = (): AutosaveRecord => {
+  const { buildings, activeBlueprintId, savedBuildings } = useGameStore.getState();
+  return {
+    buildings,
+    activeBlueprintId,
+    savedAt: Date.now(),
+    dirty: buildings !== savedBuildings,
+  };
+};
+
+/**
+ * Loads the blueprint library, offers to restore an unsaved previous session,
+ * then autosaves the layout (debounced) on every change.
+ * Autosave only starts after the recovery prompt so the old session isn't
+ * overwritten before the user has answered. Pass `skipRecovery` when the
+ * startup layout comes from elsewhere (e.g. a shared link).
+ */
+export const useAutosave = (skipRecovery = false) => {
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const scheduleAutosave = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        writeAutosave(createAutosaveRecord());
+      }, AUTOSAVE_DEBOUNCE_MS);
+    };
+
+    const start = async () => {
+      const store = useGameStore.getState();
+      await store.initBlueprints();
+      const record = await loadAutosave();
+      if (cancelled) return;
+
+      if (!skipRecovery && record && record.dirty && record.buildings.length > 0) {
+        const when = new Date(record.savedAt).toLocaleString();
+        if (confirm(`Restore unsaved session from ${when} (${record.buildings.length} pieces)?`)) {
+          store.restoreSession(record);
+        }
+      }
+
+      // Record the answer right away so a declined session isn't offered again
+      writeAutosave(createAutosaveRecord());
+
+      unsubscribe = useGameStore.subscribe((state, prev) => {
+        if (
+          state.buildings !== prev.buildings ||
+          state.activeBlueprintId !== prev.activeBlueprintId ||
+          state.savedBuildings !== prev.savedBuildings
+        ) {
+          scheduleAutosave();
+        }
+      });
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+};
@@ -0,0 +1,111 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DebugRecording, PlaybackState } from '../types/debug';
+import { findFrameAtTime, getFrameTime, getRecordingDuration } from '../utils/debugPlayback';
+import { SnapDiffGroup, groupSnapDiff, replayRecording } from '../utils/snapReplay';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export const useDebugPlayback = () => {
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const playbackRef = useRef<PlaybackState | null>(null);
+  playbackRef.current = playback;
+  // Replay of the loaded recording against the current snap code, null until run
+  const [diff, setDiff] = useState<SnapDiffGroup[] | null>(null);
+
+  const loadRecording = useCallback((recording: DebugRecording) => {
+    setPlayback({ recording, currentFrameIndex: 0, isPlaying: false, playbackSpeed: 1 });
+    setDiff(null);
+    console.log(`[Debug Playback] Loaded recording (${recording.frames.length} frames)`);
+  }, []);
+
+  const closePlayback = useCallback(() => {
+    setPlayback(null);
+    setDiff(null);
+  }, []);
+
+  const runDiff = useCallback(() => {
+    const current = playbackRef.current;
+    if (!current) return;
+    const groups = groupSnapDiff(replayRecording(current.recording));
+    const differing = groups.reduce((sum, group) => sum + group.differing.length, 0);
+    console.log(`[Debug Playback] Diff: ${differing} snap frames differ from the recording`);
+    setDiff(groups);
+  }, []);
+
+  const closeDiff = useCallback(() => {
+    setDiff(null);
+  }, []);
+
+  // Seeking and stepping pause, so the frame stays put while it's inspected
+  const seek = useCallback((index: number) => {
+    setPlayback((prev) => prev && {
+      ...prev,
+      isPlaying: false,
+      currentFrameIndex: Math.max(0, Math.min(index, prev.recording.frames.length - 1)),
+    });
+  }, []);
+
+  const step = useCallback((delta: number) => {
+    setPlayback((prev) => prev && {
+      ...prev,
+      isPlaying: false,
+      currentFrameIndex: Math.max(0, Math.min(prev.currentFrameIndex + delta, prev.recording.frames.length - 1)),
+    });
+  }, []);
+
+  const togglePlaying = useCallback(() => {
+    setPlayback((prev) => {
+      if (!prev) return prev;
+      // Play from the start again once the end is reached
+      const atEnd = prev.currentFrameIndex >= prev.recording.frames.length - 1;
+      return {
+        ...prev,
+        isPlaying: !prev.isPlaying,
+        currentFrameIndex: !prev.isPlaying && atEnd ? 0 : prev.currentFrameIndex,
+      };
+    });
+  }, []);
+
+  const setSpeed = useCallback((playbackSpeed: number) => {
+    setPlayback((prev) => prev && { ...prev, playbackSpeed });
+  }, []);
+
+  // Advance through the frames at their recorded pace while playing.
+  // Restarts on speed changes so the new speed applies from the current frame.
+  const isPlaying = playback?.isPlaying ?? false;
+  const playbackSpeed = playback?.playbackSpeed ?? 1;
+  const recording = playback?.recording ?? null;
+  useEffect(() => {
+    if (!isPlaying || !recording) return;
+    const startWall = performance.now();
+    const startTime = getFrameTime(recording, playbackRef.current?.currentFrameIndex ?? 0);
+    const duration = getRecordingDuration(recording);
+    let frameId = 0;
+
+    const tick = () => {
+      const time = startTime + (performance.now() - startWall) * playbackSpeed;
+      const index = findFrameAtTime(recording, time);
+      const finished = time >= duration;
+      setPlayback((prev) => {
+        if (!prev || (prev.currentFrameIndex === index && !finished)) return prev;
+        return { ...prev, currentFrameIndex: index, isPlaying: !finished };
+      });
+      if (!finished) frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, playbackSpeed, recording]);
+
+  return {
+    playback,
+    loadRecording,
+    closePlayback,
+    seek,
+    step,
+    togglePlaying,
+    setSpeed,
+    diff,
+    runDiff,
+    closeDiff,
+  };
+};
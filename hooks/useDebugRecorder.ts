@@ -1,39 +1,87 @@
-import { useState, useCallback, useRef } from 'react';
-import { DebugFrame, DebugRecording } from '../types/debug';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DebugFrame, DebugRecorderSettings, DebugRecording } from '../types/debug';
+import { useGameStore } from '../store/gameStore';
+import { DEBUG_RECORDING_VERSION } from '../utils/debugPlayback';
+import { DebugFrameBuffer, createDebugFrameBuffer, diffLayout, loadRecorderSettings, saveRecorderSettings } from '../utils/debugFrameBuffer';
 
 export const useDebugRecorder = () => {
   const [isRecording, setIsRecording] = useState(false);
-  const framesRef = useRef<DebugFrame[]>([]);
+  const [settings, setSettingsState] = useState<DebugRecorderSettings>(loadRecorderSettings);
+  const bufferRef = useRef<DebugFrameBuffer | null>(null);
   const startTimeRef = useRef<number>(0);
+  const lastFrameRef = useRef<DebugFrame | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  const stopWatchingLayout = () => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+  };
 
   const startRecording = useCallback(() => {
-    framesRef.current = [];
     startTimeRef.current = Date.now();
+    lastFrameRef.current = null;
+    // The layout and placement rules snaps start from, so recordings can be replayed
+    const { buildings, terrain, buildRules } = useGameStore.getState();
+    const buffer = createDebugFrameBuffer(settings, { buildings, terrain, buildRules });
+    bufferRef.current = buffer;
+
+    // Every layout change (placing, undo, moving a selection, loading...) becomes
+    // place/remove actions, stamped with the cursor state of the last frame
+    stopWatchingLayout();
+    unsubscribeRef.current = useGameStore.subscribe((state, prev) => {
+      if (state.buildings === prev.buildings) return;
+      const last = lastFrameRef.current;
+      const timestamp = Date.now();
+      diffLayout(prev.buildings, state.buildings).forEach((buildingAction) => {
+        buffer.add({
+          timestamp,
+          cursorPosition: null,
+          cursorScreen: last?.cursorScreen ?? [0, 0],
+          activeType: last?.activeType ?? state.activeType,
+          rotation: last?.rotation ?? 0,
+          buildingAction,
+        });
+      });
+    });
+
     setIsRecording(true);
     console.log('[Debug Recorder] Started recording');
-  }, []);
+  }, [settings]);
 
   const stopRecording = useCallback(() => {
+    stopWatchingLayout();
     setIsRecording(false);
-    console.log(`[Debug Recorder] Stopped recording (${framesRef.current.length} frames)`);
+    console.log(`[Debug Recorder] Stopped recording (${bufferRef.current?.size() ?? 0} frames)`);
   }, []);
 
+  // Stop listening if the recorder goes away mid-recording
+  useEffect(() => stopWatchingLayout, []);
+
   const addFrame = useCallback((frame: DebugFrame) => {
     if (!isRecording) return;
-    framesRef.current.push(frame);
+    lastFrameRef.current = frame;
+    bufferRef.current?.add(frame);
   }, [isRecording]);
 
+  // Settings apply from the next recording on
+  const setSettings = useCallback((next: DebugRecorderSettings) => {
+    saveRecorderSettings(next);
+    setSettingsState(next);
+  }, []);
+
   const downloadRecording = useCallback(() => {
-    if (framesRef.current.length === 0) {
+    const buffer = bufferRef.current;
+    if (!buffer || buffer.size() === 0) {
       alert('No recording data to download');
       return;
     }
 
     const recording: DebugRecording = {
-      version: 1,
+      version: DEBUG_RECORDING_VERSION,
       startTime: startTimeRef.current,
       endTime: Date.now(),
-      frames: framesRef.current,
+      frames: buffer.frames(),
+      initialState: buffer.initialState(),
       metadata: {
         userAgent: navigator.userAgent,
         screenResolution: [window.innerWidth, window.innerHeight],
@@ -58,14 +106,16 @@ export const useDebugRecorder = () => {
   }, []);
 
   const clearRecording = useCallback(() => {
-    framesRef.current = [];
+    bufferRef.current = null;
     startTimeRef.current = 0;
     console.log('[Debug Recorder] Cleared recording');
   }, []);
 
   return {
     isRecording,
-    frameCount: framesRef.current.length,
+    frameCount: bufferRef.current?.size() ?? 0,
+    settings,
+    setSettings,
     startRecording,
     stopRecording,
     addFrame,
@@ -0,0 +1,115 @@
+/**
+ * Blueprint code round trip: encodes and decodes every BuildingType on lattice
+ * positions, off-lattice positions and arbitrary rotations, and fails unless
+ * every coordinate comes back bit-identical (so -0 stays -0). Also checks that
+ * codes carrying NaN or Infinity are rejected and that grid layouts stay compact.
+ *
+ * Run with: npm run test:code
+ */
+import { BuildingData, BuildingType, UNIT_SIZE, FOUNDATION_HEIGHT, WALL_HEIGHT, HALF_WALL_HEIGHT, TRIANGLE_APOTHEM, TRIANGLE_RADIUS } from '../types';
+import { decodeBlueprintCode, encodeBlueprintCode } from '../utils/blueprintCode';
+
+type Vector = [number, number, number];
+
+// Values pieces actually snap to: grid steps, half steps, heights and triangle offsets
+const LATTICE_POSITIONS: Vector[] = [
+  [0, 0, 0],
+  [UNIT_SIZE, FOUNDATION_HEIGHT, -2 * UNIT_SIZE],
+  [UNIT_SIZE / 2, WALL_HEIGHT, UNIT_SIZE / 2],
+  [-UNIT_SIZE * 3, HALF_WALL_HEIGHT + FOUNDATION_HEIGHT, UNIT_SIZE * 10],
+  [TRIANGLE_APOTHEM, FOUNDATION_HEIGHT, UNIT_SIZE / 2],
+  [UNIT_SIZE / 2 + TRIANGLE_RADIUS, 2 * WALL_HEIGHT, -TRIANGLE_APOTHEM],
+];
+
+// Free placement, float noise from snapping math and signed zero
+const OFF_LATTICE_POSITIONS: Vector[] = [
+  [1.1547005383792517, 0, 0],
+  [0.1 + 0.2, 0.30000000000000004, -7.123456789],
+  [Math.cos(Math.PI / 3) * UNIT_SIZE, FOUNDATION_HEIGHT, Math.sin(Math.PI / 3) * UNIT_SIZE],
+  [-0, 0, -0],
+  [1e-12, 12345.678, -98765.4321],
+];
+
+const ROTATIONS: Vector[] = [
+  [0, 0, 0],
+  [0, Math.PI / 2, 0],
+  [0, -Math.PI / 3, 0],
+  [0, Math.PI / 4 + Math.PI, 0],
+  [0, (5 * Math.PI) / 6, 0],
+  [0, 0.123456789, 0],
+  [0, -0, 0],
+  [0.1, Math.PI, -0.2],
+  [0, 2 * Math.PI + 1e-9, 0],
+];
+
+const sameVector = (a: Vector, b: Vector) => a.every((v, i) => Object.is(v, b[i]));
+
+const failures: string[] = [];
+let checked = 0;
+
+const types = Object.values(BuildingType) as BuildingType[];
+for (const type of types) {
+  const buildings: BuildingData[] = [];
+  for (const position of [...LATTICE_POSITIONS, ...OFF_LATTICE_POSITIONS]) {
+    for (const rotation of ROTATIONS) {
+      buildings.push({ id: `${buildings.length}`, type, position, rotation });
+    }
+  }
+
+  let decoded: BuildingData[];
+  try {
+    decoded = decodeBlueprintCode(encodeBlueprintCode({ name: `All ${type}`, buildings })).buildings;
+  } catch (err) {
+    failures.push(`${type}: ${(err as Error).message}`);
+    continue;
+  }
+  if (decoded.length !== buildings.length) {
+    failures.push(`${type}: ${buildings.length} pieces encoded, ${decoded.length} decoded`);
+    continue;
+  }
+
+  buildings.forEach((original, i) => {
+    checked++;
+    const result = decoded[i];
+    if (result.type !== original.type || !sameVector(result.position, original.position) || !sameVector(result.rotation, original.rotation)) {
+      failures.push(
+        `${type}: position ${JSON.stringify(original.position)} rotation ${JSON.stringify(original.rotation)}` +
+        ` decoded as ${result.type} ${JSON.stringify(result.position)} ${JSON.stringify(result.rotation)}`
+      );
+    }
+  });
+}
+
+// Raw floats in a code must be finite
+for (const bad of [NaN, Infinity, -Infinity]) {
+  const code = encodeBlueprintCode({
+    name: 'Bad',
+    buildings: [{ id: 'bad', type: BuildingType.WALL, position: [0, bad, 0], rotation: [0, 0, 0] }],
+  });
+  try {
+    decodeBlueprintCode(code);
+    failures.push(`a position containing ${bad} was decoded instead of rejected`);
+  } catch {
+    // Expected
+  }
+}
+
+// A snapped grid layout should use the lattice, not raw floats (8 bytes per coordinate)
+const grid: BuildingData[] = [];
+for (let x = 0; x < 10; x++) {
+  for (let z = 0; z < 10; z++) {
+    grid.push({ id: `${x},${z}`, type: BuildingType.SQUARE_FOUNDATION, position: [x * UNIT_SIZE, 0, z * UNIT_SIZE], rotation: [0, 0, 0] });
+  }
+}
+const gridBytes = Math.ceil((encodeBlueprintCode({ name: '', buildings: grid }).length * 3) / 4);
+if (gridBytes > grid.length * 16) {
+  failures.push(`10x10 foundation grid took ${gridBytes} bytes; lattice encoding isn't being used`);
+}
+
+if (failures.length > 0) {
+  failures.slice(0, 20).forEach((failure) => console.log(`FAIL  ${failure}`));
+  if (failures.length > 20) console.log(`      ...and ${failures.length - 20} more`);
+  console.error(`\n${failures.length} blueprint code checks failed`);
+  process.exit(1);
+}
+console.log(`PASS  ${checked} pieces across ${types.length} building types round-trip bit-exact (grid of 100 in ${gridBytes} bytes)`);
@@ -0,0 +1,141 @@
+/**
+ * Snap benchmark: times calculateSnap against large generated layouts after
+ * an untimed warm-up, and fails when the 99th percentile call exceeds the
+ * per-frame snap budget, or the slowest call or the first call on a new
+ * layout (which indexes every piece) would drop a frame.
+ * Node runs it with --single-threaded so background JIT and GC threads can't
+ * steal the core from timed calls on single-CPU machines.
+ *
+ * Run with: npm run bench:snap
+ */
+import * as THREE from 'three';
+import { BuildingData, BuildingType, UNIT_SIZE, FOUNDATION_HEIGHT } from '../types';
+import { calculateSnap } from '../utils/geometry';
+
+/** Share of a 60fps frame calculateSnap may use */
+const SNAP_BUDGET_MS = 4;
+/** A whole 60fps frame; no single call may take longer */
+const FRAME_BUDGET_MS = 16;
+const WARM_UP_ROUNDS = 3;
+const LAYOUT_SIZES = [100, 500, 1000, 2000];
+const SAMPLES_PER_TYPE = 200;
+const ACTIVE_TYPES = [
+  BuildingType.SQUARE_FOUNDATION,
+  BuildingType.TRIANGLE_FOUNDATION,
+  BuildingType.WALL,
+  BuildingType.SQUARE_ROOF,
+  BuildingType.STAIRS,
+];
+
+// Deterministic PRNG so runs are comparable
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+/**
+ * A square grid of foundations with a wall on every outer and every third
+ * inner side, and a roof over every other cell, until `pieceCount` is reached.
+ */
+const generateLayout = (pieceCount: number, idPrefix = 'p'): BuildingData[] => {
+  const buildings: BuildingData[] = [];
+  const side = Math.ceil(Math.sqrt(pieceCount / 2.5));
+  const half = UNIT_SIZE / 2;
+  let n = 0;
+  const add = (type: BuildingType, position: [number, number, number], rotationY = 0) => {
+    if (buildings.length < pieceCount) {
+      buildings.push({ id: `${idPrefix}${n++}`, type, position, rotation: [0, rotationY, 0] });
+    }
+  };
+
+  for (let i = 0; i < side; i++) {
+    for (let j = 0; j < side; j++) {
+      add(BuildingType.SQUARE_FOUNDATION, [i * UNIT_SIZE, 0, j * UNIT_SIZE]);
+    }
+  }
+  for (let i = 0; i < side; i++) {
+    for (let j = 0; j < side; j++) {
+      const x = i * UNIT_SIZE;
+      const z = j * UNIT_SIZE;
+      if (j === 0 || (i + j) % 3 === 0) add(BuildingType.WALL, [x, FOUNDATION_HEIGHT, z - half]);
+      if (i === 0 || (i * j) % 3 === 0) add(BuildingType.WALL, [x - half, FOUNDATION_HEIGHT, z], Math.PI / 2);
+      if ((i + j) % 2 === 0) add(BuildingType.SQUARE_ROOF, [x, FOUNDATION_HEIGHT + 3, z]);
+    }
+  }
+  return buildings;
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+const createPointSource = (size: number) => {
+  const random = createRandom(size);
+  const extent = Math.sqrt(size / 2.5) * UNIT_SIZE;
+  return () => new THREE.Vector3(random() * extent, random() < 0.5 ? 0 : 3.2, random() * extent);
+};
+
+interface LayoutTimings {
+  pieces: number;
+  firstCall: number;
+  addPiece: number;
+  timings: number[];  // Sorted
+}
+
+/** Time a first call, an added piece and a spread of cursor points on one layout */
+const measureLayout = (size: number, idPrefix: string): LayoutTimings => {
+  const buildings = generateLayout(size, idPrefix);
+  const randomPoint = createPointSource(size);
+
+  // First call indexes every piece
+  let start = performance.now();
+  calculateSnap(randomPoint(), buildings, BuildingType.WALL, 0);
+  const firstCall = performance.now() - start;
+
+  // Adding one piece only indexes the new piece
+  const extra: BuildingData = { id: `${idPrefix}extra`, type: BuildingType.WALL, position: [-UNIT_SIZE, 0.2, 0], rotation: [0, 0, 0] };
+  const grown = [...buildings, extra];
+  start = performance.now();
+  calculateSnap(randomPoint(), grown, BuildingType.WALL, 0);
+  const addPiece = performance.now() - start;
+
+  const timings: number[] = [];
+  for (const activeType of ACTIVE_TYPES) {
+    for (let i = 0; i < SAMPLES_PER_TYPE; i++) {
+      const point = randomPoint();
+      start = performance.now();
+      calculateSnap(point, grown, activeType, 0);
+      timings.push(performance.now() - start);
+    }
+  }
+  timings.sort((a, b) => a - b);
+  return { pieces: grown.length, firstCall, addPiece, timings };
+};
+
+// Run the whole benchmark untimed first: until the JIT has seen every layout
+// and piece type, calls get deoptimised and recompiled on the main thread,
+// which says nothing about what a user sees after a few seconds of building
+for (let round = 0; round < WARM_UP_ROUNDS; round++) {
+  LAYOUT_SIZES.forEach((size) => measureLayout(size, `warm${round}-`));
+}
+
+let failed = false;
+console.log(`calculateSnap budget: ${SNAP_BUDGET_MS}ms at p99, ${FRAME_BUDGET_MS}ms for any single call\n`);
+console.log('pieces  first call  add piece  median   p95      p99      max');
+
+for (const size of LAYOUT_SIZES) {
+  const { pieces, firstCall, addPiece, timings } = measureLayout(size, 'p');
+  const p99 = percentile(timings, 0.99);
+  const max = timings[timings.length - 1];
+  const overBudget = p99 > SNAP_BUDGET_MS || Math.max(max, firstCall, addPiece) > FRAME_BUDGET_MS;
+  const format = (ms: number) => `${ms.toFixed(3)}ms`.padEnd(9);
+  console.log(
+    `${String(pieces).padEnd(8)}${format(firstCall).padEnd(12)}${format(addPiece).padEnd(11)}` +
+    `${format(percentile(timings, 0.5))}${format(percentile(timings, 0.95))}${format(p99)}${format(max)}` +
+    (overBudget ? '  OVER BUDGET' : '')
+  );
+  if (overBudget) failed = true;
+}
+
+if (failed) {
+  console.error('\ncalculateSnap exceeded the frame budget');
+  process.exit(1);
+}
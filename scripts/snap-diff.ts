@@ -0,0 +1,50 @@
+/**
+ * Recording diff: replays one debug recording against the current
+ * calculateSnap and lists every snap frame whose chosen candidate, position,
+ * rotation or validity differs from what was recorded, grouped by piece type.
+ * Use it after changing snap scoring to see what the change did; exits
+ * non-zero when anything differs.
+ *
+ * Run with: npm run diff:snap -- recording.json
+ */
+import { readFileSync } from 'fs';
+import { parseDebugRecording } from '../utils/debugPlayback';
+import { groupSnapDiff, replayRecording, SnapDifferenceKind } from '../utils/snapReplay';
+
+const file = process.argv[2];
+if (!file) {
+  console.error('Usage: npm run diff:snap -- recording.json');
+  process.exit(2);
+}
+
+const { recording, errors } = parseDebugRecording(JSON.parse(readFileSync(file, 'utf8')));
+if (!recording) {
+  console.error(`${file} is not a valid recording:`);
+  errors.forEach((error) => console.error(`  ${error}`));
+  process.exit(2);
+}
+if (!recording.initialState) {
+  console.log(`note: version ${recording.version} recording without an initial state, replaying from an empty layout`);
+}
+if (recording.version < 3) {
+  console.log(`note: version ${recording.version} recording predates the candidate schema, chosen candidates aren't compared`);
+}
+
+const groups = groupSnapDiff(replayRecording(recording));
+const kinds: SnapDifferenceKind[] = ['candidate', 'position', 'rotation', 'validity', 'missing'];
+let differingTotal = 0;
+let snapTotal = 0;
+
+for (const group of groups) {
+  snapTotal += group.snapCount;
+  differingTotal += group.differing.length;
+  const counts = kinds.filter((kind) => group.counts[kind] > 0).map((kind) => `${kind} ${group.counts[kind]}`);
+  console.log(`\n${group.activeType}: ${group.differing.length} of ${group.snapCount} snaps differ${counts.length ? ` (${counts.join(', ')})` : ''}`);
+  group.differing.forEach((result) => {
+    console.log(`  frame ${result.frameIndex}`);
+    result.differences.forEach((difference) => console.log(`    ${difference.message}`));
+  });
+}
+
+console.log(`\n${differingTotal} of ${snapTotal} snaps differ from the recording`);
+if (differingTotal > 0) process.exit(1);
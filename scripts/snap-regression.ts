@@ -0,0 +1,72 @@
+/**
+ * Snap regression tests: replays every debug recording in scripts/snap-fixtures
+ * against the current calculateSnap and fails when a snap's final position,
+ * rotation or validity differs from what was recorded. Any downloaded
+ * recording can be dropped into the folder as a new test; pass file paths to
+ * replay just those. Which candidate won is only compared with --candidates,
+ * since candidates can change without moving a placement.
+ *
+ * Run with: npm run test:snap [-- [--candidates] recording.json ...]
+ */
+import { readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { parseDebugRecording } from '../utils/debugPlayback';
+import { replayRecording } from '../utils/snapReplay';
+
+const FIXTURES_DIR = 'scripts/snap-fixtures';
+/** Differing frames listed per recording; the rest are only counted */
+const MAX_REPORTED_FRAMES = 10;
+
+const args = process.argv.slice(2);
+const compareCandidates = args.includes('--candidates');
+const paths = args.filter((arg) => arg !== '--candidates');
+
+const files = paths.length > 0
+  ? paths
+  : readdirSync(FIXTURES_DIR).filter((name) => name.endsWith('.json')).sort().map((name) => join(FIXTURES_DIR, name));
+
+if (files.length === 0) {
+  console.error(`No recordings found in ${FIXTURES_DIR}`);
+  process.exit(1);
+}
+
+let failed = 0;
+for (const file of files) {
+  const { recording, errors } = parseDebugRecording(JSON.parse(readFileSync(file, 'utf8')));
+  if (!recording) {
+    console.log(`FAIL  ${basename(file)}: not a valid recording`);
+    errors.forEach((error) => console.log(`      ${error}`));
+    failed++;
+    continue;
+  }
+  if (!recording.initialState) {
+    console.log(`note  ${basename(file)}: version ${recording.version} recording without an initial state, replaying from an empty layout`);
+  }
+
+  // Only the placement counts unless asked; npm run diff:snap always reports which candidate won
+  const results = replayRecording(recording).map((result) => ({
+    ...result,
+    differences: compareCandidates
+      ? result.differences
+      : result.differences.filter((difference) => difference.kind !== 'candidate'),
+  }));
+  const differing = results.filter((result) => result.differences.length > 0);
+  if (differing.length === 0) {
+    console.log(`PASS  ${basename(file)} (${results.length} snaps)`);
+    continue;
+  }
+
+  failed++;
+  console.log(`FAIL  ${basename(file)}: ${differing.length} of ${results.length} snaps differ`);
+  differing.slice(0, MAX_REPORTED_FRAMES).forEach((result) => {
+    console.log(`      frame ${result.frameIndex} ${result.activeType}: ${result.differences.map((d) => d.message).join('; ')}`);
+  });
+  if (differing.length > MAX_REPORTED_FRAMES) {
+    console.log(`      ...and ${differing.length - MAX_REPORTED_FRAMES} more`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`\n${failed} of ${files.length} recordings no longer replay as recorded`);
+  process.exit(1);
+}
@@ -0,0 +1,209 @@
+/**
+ * Snap rule checks: one small scene per SnapRules field (lattice, targets,
+ * preferTargets, alignments, scoreBiases). Each calls calculateSnap and fails
+ * unless the chosen target, position and rotation match the expected values,
+ * then reruns the scene with that field emptied and fails if the result
+ * doesn't change, so every check depends on the rule it is named after.
+ *
+ * Run with: npm run test:rules
+ */
+import * as THREE from 'three';
+import { BuildingData, BuildingType, SocketType, UNIT_SIZE, FOUNDATION_HEIGHT, WALL_HEIGHT } from '../types';
+import { getBuildingDef, SnapRules } from '../data/BuildingRegistry';
+import { calculateSnap } from '../utils/geometry';
+
+type Vector = [number, number, number];
+
+interface SnapExpectation {
+  target: { socketType: SocketType; position: Vector } | null;  // null for the grid fallback
+  position: Vector;
+  rotationY: number;
+}
+
+interface RuleCheck {
+  name: string;
+  field: keyof SnapRules;
+  activeType: BuildingType;
+  buildings: BuildingData[];
+  cursor: Vector;
+  rotationY?: number;
+  expected: SnapExpectation;
+  /** Value of `field` that switches the rule off */
+  neutral: SnapRules[keyof SnapRules];
+}
+
+const TOLERANCE = 1e-6;
+const HALF = UNIT_SIZE / 2;
+const TOP = FOUNDATION_HEIGHT;
+
+const piece = (id: string, type: BuildingType, position: Vector, rotationY = 0): BuildingData => ({
+  id,
+  type,
+  position,
+  rotation: [0, rotationY, 0],
+});
+
+// A foundation at the origin; its top sockets sit on the middle of each edge
+const foundation = piece('foundation', BuildingType.SQUARE_FOUNDATION, [0, 0, 0]);
+// A wall standing on the foundation's +X edge
+const wall = piece('wall', BuildingType.WALL, [HALF, TOP, 0], Math.PI / 2);
+
+const CHECKS: RuleCheck[] = [
+  {
+    name: 'walls fall back to grid line midpoints, not cell centers',
+    field: 'lattice',
+    activeType: BuildingType.WALL,
+    buildings: [],
+    cursor: [1.3, 0, 2.9],
+    expected: { target: null, position: [HALF, 0, UNIT_SIZE], rotationY: 0 },
+    neutral: 'square',
+  },
+  {
+    name: 'curved walls stand on the curved edge of a curved foundation only',
+    field: 'targets',
+    activeType: BuildingType.CURVED_WALL,
+    buildings: [piece('curved', BuildingType.CURVED_FOUNDATION, [0, 0, 0])],
+    cursor: [0, TOP, -1.8],
+    expected: {
+      // Midpoint of the quarter circle around the (-X, +Z) corner
+      target: { socketType: SocketType.FOUNDATION_TOP, position: [UNIT_SIZE / Math.SQRT2 - HALF, TOP, UNIT_SIZE / Math.SQRT2 - HALF] },
+      position: [0, TOP, 0],
+      rotationY: 0,
+    },
+    neutral: [],
+  },
+  {
+    name: 'stairs above ground chain onto the stairs below rather than the floor',
+    field: 'preferTargets',
+    activeType: BuildingType.STAIRS_2,
+    buildings: [
+      foundation,
+      piece('stairs', BuildingType.STAIRS_2, [0, TOP, UNIT_SIZE]),
+      piece('foundation-2', BuildingType.SQUARE_FOUNDATION, [UNIT_SIZE, 0, UNIT_SIZE]),
+    ],
+    cursor: [0.5, 0.6, 5],
+    expected: {
+      target: { socketType: SocketType.INCLINE_TOP, position: [0, TOP + WALL_HEIGHT, UNIT_SIZE + HALF] },
+      position: [0, TOP + WALL_HEIGHT, 2 * UNIT_SIZE],
+      rotationY: 0,
+    },
+    neutral: undefined,
+  },
+  {
+    name: 'walls on a foundation edge face outward',
+    field: 'alignments',
+    activeType: BuildingType.WALL,
+    buildings: [foundation],
+    cursor: [1.9, TOP, 0.3],
+    expected: {
+      target: { socketType: SocketType.FOUNDATION_TOP, position: [HALF, TOP, 0] },
+      position: [HALF, TOP, 0],
+      rotationY: Math.PI / 2,
+    },
+    neutral: [],
+  },
+  {
+    name: 'stacked walls follow the wall below',
+    field: 'alignments',
+    activeType: BuildingType.WALL,
+    buildings: [foundation, wall],
+    cursor: [HALF, WALL_HEIGHT, 0.3],
+    expected: {
+      target: { socketType: SocketType.WALL_TOP, position: [HALF, TOP + WALL_HEIGHT, 0] },
+      position: [HALF, TOP + WALL_HEIGHT, 0],
+      rotationY: Math.PI / 2,
+    },
+    neutral: [],
+  },
+  {
+    name: 'walls above ground prefer stacking over a closer foundation edge',
+    field: 'scoreBiases',
+    activeType: BuildingType.WALL,
+    buildings: [foundation, wall],
+    cursor: [0.5, 1, 0.5],
+    expected: {
+      target: { socketType: SocketType.WALL_TOP, position: [HALF, TOP + WALL_HEIGHT, 0] },
+      position: [HALF, TOP + WALL_HEIGHT, 0],
+      rotationY: Math.PI / 2,
+    },
+    neutral: [],
+  },
+];
+
+// Smallest difference between two angles, so 0 and 2π count as equal
+const angleDifference = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % (Math.PI * 2);
+  return Math.min(diff, Math.PI * 2 - diff);
+};
+
+const near = (a: Vector, b: Vector) => a.every((v, i) => Math.abs(v - b[i]) < TOLERANCE);
+
+const runSnap = (check: RuleCheck): SnapExpectation => {
+  const snap = calculateSnap(new THREE.Vector3(...check.cursor), check.buildings, check.activeType, check.rotationY ?? 0);
+  return {
+    target: snap.snapTarget
+      ? { socketType: snap.snapTarget.socketType, position: snap.snapTarget.position.toArray() as Vector }
+      : null,
+    position: snap.position.toArray() as Vector,
+    rotationY: snap.rotation.y,
+  };
+};
+
+/** Ways `actual` differs from `expected`, empty when they match */
+const compare = (expected: SnapExpectation, actual: SnapExpectation): string[] => {
+  const differences: string[] = [];
+  if (!expected.target !== !actual.target) {
+    differences.push(`target ${actual.target ? 'found' : 'missing'}`);
+  } else if (expected.target && actual.target) {
+    if (expected.target.socketType !== actual.target.socketType) differences.push('target socket type');
+    if (!near(expected.target.position, actual.target.position)) differences.push('target position');
+  }
+  if (!near(expected.position, actual.position)) differences.push('position');
+  if (angleDifference(expected.rotationY, actual.rotationY) > TOLERANCE) differences.push('rotation');
+  return differences;
+};
+
+const describe = (result: SnapExpectation) => {
+  const round = (v: Vector) => `[${v.map((n) => +n.toFixed(4)).join(', ')}]`;
+  const target = result.target ? `${result.target.socketType} at ${round(result.target.position)}` : 'grid';
+  return `${target}, position ${round(result.position)}, rotation ${+result.rotationY.toFixed(4)}`;
+};
+
+/** Run with one field of the active type's snap rules replaced */
+const withRule = <T>(type: BuildingType, field: keyof SnapRules, value: SnapRules[keyof SnapRules], run: () => T): T => {
+  const def = getBuildingDef(type);
+  const original = def.snap;
+  def.snap = { ...original, [field]: value };
+  try {
+    return run();
+  } finally {
+    def.snap = original;
+  }
+};
+
+let failed = 0;
+for (const check of CHECKS) {
+  const actual = runSnap(check);
+  const differences = compare(check.expected, actual);
+  const neutral = withRule(check.activeType, check.field, check.neutral, () => runSnap(check));
+  const ruleMatters = compare(check.expected, neutral).length > 0;
+
+  if (differences.length === 0 && ruleMatters) {
+    console.log(`PASS  ${check.field}: ${check.name}`);
+    continue;
+  }
+  failed++;
+  console.log(`FAIL  ${check.field}: ${check.name}`);
+  if (differences.length > 0) {
+    console.log(`      expected ${describe(check.expected)}`);
+    console.log(`      got      ${describe(actual)} (${differences.join(', ')} differ)`);
+  }
+  if (!ruleMatters) {
+    console.log(`      same result with ${check.field} switched off; the scene doesn't exercise the rule`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`\n${failed} of ${CHECKS.length} snap rule checks failed`);
+  process.exit(1);
+}
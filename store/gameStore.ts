@@ -1,5 +1,39 @@
 import { create } from 'zustand';
-import { BuildingData, BuildingType, BuildingSet } from '../types';
+import { BuildingData, BuildingType, BuildingSet, SavedPrefab, StoredBlueprint } from '../types';
+import { getRotationIncrement, formatBuildingType } from '../data/BuildingRegistry';
+import {
+    ScreenRect,
+    getSelectionPivot,
+    translateBuildings,
+    rotateBuildingsAround,
+    duplicateBuildings,
+    getDuplicateOffset,
+} from '../utils/selection';
+import { PlacementGroup, createPlacementGroup, findOverlappingBuildings } from '../utils/clipboard';
+import { loadPrefabs, savePrefabs } from '../utils/prefabStorage';
+import { AutosaveRecord, loadBlueprints, putBlueprint, removeBlueprint } from '../utils/blueprintStorage';
+import { renderBlueprintThumbnail } from '../utils/blueprintThumbnail';
+import { BLUEPRINT_VERSION } from '../utils/blueprintSchema';
+import { findCascadeRemovals } from '../utils/stability';
+import { Terrain, loadTerrain, saveTerrain } from '../utils/terrain';
+import { loadBuildRules, saveBuildRules } from '../utils/buildRules';
+import type { BuildRules } from '../data/buildRules';
+import {
+    HistoryCommand,
+    HistoryEntry,
+    MAX_HISTORY_DEPTH,
+    applyEntry,
+    revertEntry,
+    createRemoveCommand,
+} from './history';
+
+export type InteractionMode = 'build' | 'select';
+
+export interface SnapCycle {
+    index: number;  // Zero-based
+    total: number;
+}
+export type SelectionMode = 'replace' | 'add' | 'toggle';
 
 interface GameState {
     // State
@@ -11,20 +45,190 @@ interface GameState {
     autoHeight: boolean;      // Auto-snap to socket height when snapping
     manualHeight: boolean;    // Allow arrow key height adjustment
     activeBuildingSet: BuildingSet;  // Current building style/color palette
+    showBillOfMaterials: boolean;
+    showRooms: boolean;       // Room analysis panel and gap highlights
+    showStability: boolean;   // Outline pieces with no support path to the ground
+    cascadeRemoval: boolean;  // Demolishing a piece also removes pieces left without support
+    snapCycle: SnapCycle | null;  // Position of the ghost's snap in the candidate list (null on the grid)
+    terrain: Terrain | null;  // Imported heightmap (persisted to browser storage, not part of undo)
+    buildRules: BuildRules;   // Claim area and piece limits (persisted like the terrain)
+    showBuildRules: boolean;
+
+    // History
+    past: HistoryEntry[];     // Undo stack (most recent last)
+    future: HistoryEntry[];   // Redo stack (most recent last)
+    pendingTransaction: HistoryEntry | null;  // Open transaction collecting commands
+    transactionDepth: number; // Nested beginTransaction calls
+
+    // Selection
+    interactionMode: InteractionMode;  // Build places pieces, select picks existing ones
+    selectedIds: string[];
+    selectionRect: ScreenRect | null;  // Active drag rectangle (client pixels)
+    selectionCollisions: string[];     // Piece ids that blocked the last move/rotate of the selection
+
+    // Clipboard
+    clipboard: PlacementGroup | null;       // Last copied/cut group
+    placementGroup: PlacementGroup | null;  // Group currently following the cursor (paste / prefab / merge)
+    placementCollisions: string[];          // Existing piece ids the placement group currently overlaps
+
+    // Prefab library (persisted to browser storage)
+    prefabs: SavedPrefab[];
+    activePrefabId: string | null;
+
+    // Blueprint manager (named save slots in IndexedDB)
+    blueprints: StoredBlueprint[];
+    blueprintsLoaded: boolean;
+    activeBlueprintId: string | null;  // Slot the current layout was loaded from / saved to
+    savedBuildings: BuildingData[] | null;  // Layout as of the last explicit save/load (for autosave dirty check)
+    showBlueprintManager: boolean;
 
     // Actions
-    setBuildings: (buildings: BuildingData[] | ((prev: BuildingData[]) => BuildingData[])) => void;
-    addBuilding: (building: BuildingData) => void;
-    removeBuilding: (id: string) => void;
+    setBuildings: (buildings: BuildingData[] | ((prev: BuildingData[]) => BuildingData[]), label?: string) => void;
+    addBuilding: (building: BuildingData, label?: string) => void;
+    addBuildings: (buildings: BuildingData[], label: string) => void;
+    removeBuilding: (id: string, label?: string) => void;
     setActiveType: (type: BuildingType) => void;
     toggleWireframe: () => void;
+    toggleBillOfMaterials: () => void;
+    toggleRooms: () => void;
+    toggleStability: () => void;
+    toggleCascadeRemoval: () => void;
     toggleSocketDebug: () => void;
     toggle2DMode: () => void;
     toggleAutoHeight: () => void;
     toggleManualHeight: () => void;
+    setSnapCycle: (cycle: SnapCycle | null) => void;
+    setTerrain: (terrain: Terrain | null) => void;
+    setBuildRules: (rules: BuildRules) => void;
+    toggleBuildRules: () => void;
     setActiveBuildingSet: (set: BuildingSet) => void;
+
+    // History actions
+    beginTransaction: (label: string) => void;
+    commitTransaction: () => void;
+    undo: () => void;
+    redo: () => void;
+    clearHistory: () => void;
+
+    // Selection actions
+    setInteractionMode: (mode: InteractionMode) => void;
+    selectBuildings: (ids: string[], mode?: SelectionMode) => void;
+    clearSelection: () => void;
+    setSelectionRect: (rect: ScreenRect | null) => void;
+    deleteSelected: () => void;
+    moveSelected: (delta: [number, number, number]) => void;
+    rotateSelected: (direction: 1 | -1) => void;
+    duplicateSelected: () => void;
+
+    // Clipboard actions
+    copySelected: () => void;
+    cutSelected: () => void;
+    startPaste: () => void;
+    cancelPlacement: () => void;
+    setPlacementCollisions: (ids: string[]) => void;
+    startMergeImport: (buildings: BuildingData[], name: string) => void;
+
+    // Prefab actions (return null / false when the storage write failed)
+    savePrefabFromSelection: (name: string) => SavedPrefab | null;
+    addPrefab: (prefab: SavedPrefab) => boolean;
+    deletePrefab: (id: string) => boolean;
+    pickPrefab: (id: string) => void;
+
+    // Blueprint actions (resolve to false / null when the storage write failed)
+    initBlueprints: () => Promise<void>;
+    setShowBlueprintManager: (show: boolean) => void;
+    saveBlueprintAs: (name: string) => Promise<StoredBlueprint | null>;
+    overwriteBlueprint: (id: string) => Promise<boolean>;
+    renameBlueprint: (id: string, name: string) => Promise<boolean>;
+    duplicateBlueprint: (id: string) => Promise<boolean>;
+    deleteBlueprint: (id: string) => Promise<boolean>;
+    loadBlueprint: (id: string) => void;
+    restoreSession: (record: AutosaveRecord) => void;
 }
 
+let nextHistoryId = 1;
+
+/**
+ * Drop selected ids that no longer exist (after undo, removal, load...).
+ */
+const pruneSelection = (selectedIds: string[], buildings: BuildingData[]): string[] => {
+    if (selectedIds.length === 0) return selectedIds;
+    const existing = new Set(buildings.map((b) => b.id));
+    const pruned = selectedIds.filter((id) => existing.has(id));
+    return pruned.length === selectedIds.length ? selectedIds : pruned;
+};
+
+/**
+ * Ids of unselected pieces the transformed selection would newly overlap.
+ * Overlaps the selection already had are ignored so an overlapping layout
+ * (from an old blueprint) can still be moved apart.
+ */
+const findBlockingPieces = (
+    buildings: BuildingData[],
+    before: BuildingData[],
+    after: BuildingData[]
+): string[] => {
+    const moving = new Set(before.map((b) => b.id));
+    const others = buildings.filter((b) => !moving.has(b.id));
+    const existing = new Set(findOverlappingBuildings(before, others));
+    return findOverlappingBuildings(after, others).filter((id) => !existing.has(id));
+};
+
+/**
+ * Expand a removal with the pieces it leaves unsupported, when cascade removal is on.
+ */
+const withCascade = (state: GameState, ids: string[]): string[] => {
+    if (!state.cascadeRemoval) return ids;
+    return [...ids, ...findCascadeRemovals(state.buildings, ids, state.terrain)];
+};
+
+const cascadeLabel = (label: string, cascadedCount: number): string => {
+    return cascadedCount > 0 ? `${label} (+${cascadedCount} unsupported)` : label;
+};
+
+/**
+ * Insert or replace a blueprint by id, keeping list order.
+ */
+const upsertById = (blueprints: StoredBlueprint[], blueprint: StoredBlueprint): StoredBlueprint[] => {
+    return blueprints.some((b) => b.id === blueprint.id)
+        ? blueprints.map((b) => (b.id === blueprint.id ? blueprint : b))
+        : [...blueprints, blueprint];
+};
+
+/**
+ * Record a command against the current state.
+ * Inside a transaction the command joins the pending entry; otherwise it becomes
+ * its own undo step. Any new command invalidates the redo stack.
+ */
+const recordCommand = (
+    state: GameState,
+    command: HistoryCommand,
+    label: string
+): Pick<GameState, 'past' | 'future' | 'pendingTransaction'> => {
+    if (state.pendingTransaction) {
+        return {
+            past: state.past,
+            future: [],
+            pendingTransaction: {
+                ...state.pendingTransaction,
+                commands: [...state.pendingTransaction.commands, command],
+            },
+        };
+    }
+
+    const entry: HistoryEntry = {
+        id: nextHistoryId++,
+        label,
+        timestamp: Date.now(),
+        commands: [command],
+    };
+    return {
+        past: [...state.past, entry].slice(-MAX_HISTORY_DEPTH),
+        future: [],
+        pendingTransaction: null,
+    };
+};
+
 export const useGameStore = create<GameState>((set, get) => ({
     // Initial State
     buildings: [],
@@ -35,22 +239,85 @@ export const useGameStore = create<GameState>((set, get) => ({
     autoHeight: true,
     manualHeight: false,
     activeBuildingSet: BuildingSet.DUNE_MAN,
+    showBillOfMaterials: false,
+    showRooms: false,
+    showStability: true,
+    cascadeRemoval: false,
+    snapCycle: null,
+    terrain: loadTerrain(),
+    buildRules: loadBuildRules(),
+    showBuildRules: false,
+
+    past: [],
+    future: [],
+    pendingTransaction: null,
+    transactionDepth: 0,
+
+    interactionMode: 'build',
+    selectedIds: [],
+    selectionRect: null,
+    selectionCollisions: [],
+
+    clipboard: null,
+    placementGroup: null,
+    placementCollisions: [],
+
+    prefabs: loadPrefabs(),
+    activePrefabId: null,
+
+    blueprints: [],
+    blueprintsLoaded: false,
+    activeBlueprintId: null,
+    savedBuildings: null,
+    showBlueprintManager: false,
 
     // Actions
-    setBuildings: (buildings) => set((state) => ({
-        buildings: typeof buildings === 'function' ? buildings(state.buildings) : buildings
-    })),
+    setBuildings: (buildings, label = 'Replace Layout') => set((state) => {
+        const next = typeof buildings === 'function' ? buildings(state.buildings) : buildings;
+        if (next === state.buildings) return {};
+        return {
+            buildings: next,
+            selectedIds: pruneSelection(state.selectedIds, next),
+            ...recordCommand(state, { kind: 'replace', before: state.buildings, after: next }, label),
+        };
+    }),
 
-    addBuilding: (building) => set((state) => ({
-        buildings: [...state.buildings, building]
+    addBuilding: (building, label) => set((state) => ({
+        buildings: [...state.buildings, building],
+        ...recordCommand(
+            state,
+            { kind: 'add', buildings: [building] },
+            label ?? `Place ${formatBuildingType(building.type)}`
+        ),
     })),
 
-    removeBuilding: (id) => set((state) => ({
-        buildings: state.buildings.filter((b) => b.id !== id)
-    })),
+    addBuildings: (buildings, label) => set((state) => {
+        if (buildings.length === 0) return {};
+        return {
+            buildings: [...state.buildings, ...buildings],
+            ...recordCommand(state, { kind: 'add', buildings }, label),
+        };
+    }),
 
-    setActiveType: (type) => set({ activeType: type }),
+    removeBuilding: (id, label) => set((state) => {
+        const ids = withCascade(state, [id]);
+        const command = createRemoveCommand(state.buildings, ids);
+        if (!command) return {};
+        const removedIds = new Set(ids);
+        const baseLabel = label ?? `Demolish ${formatBuildingType(state.buildings.find((b) => b.id === id)?.type ?? '')}`;
+        return {
+            buildings: state.buildings.filter((b) => !removedIds.has(b.id)),
+            selectedIds: state.selectedIds.filter((selectedId) => !removedIds.has(selectedId)),
+            ...recordCommand(state, command, cascadeLabel(baseLabel, ids.length - 1)),
+        };
+    }),
+
+    setActiveType: (type) => set({ activeType: type, placementGroup: null, placementCollisions: [], activePrefabId: null }),
     toggleWireframe: () => set((state) => ({ showWireframe: !state.showWireframe })),
+    toggleBillOfMaterials: () => set((state) => ({ showBillOfMaterials: !state.showBillOfMaterials })),
+    toggleCascadeRemoval: () => set((state) => ({ cascadeRemoval: !state.cascadeRemoval })),
+    toggleRooms: () => set((state) => ({ showRooms: !state.showRooms })),
+    toggleStability: () => set((state) => ({ showStability: !state.showStability })),
     toggleSocketDebug: () => set((state) => ({ showSocketDebug: !state.showSocketDebug })),
     toggle2DMode: () => set((state) => ({ is2DMode: !state.is2DMode })),
     toggleAutoHeight: () => set((state) => ({
@@ -61,7 +328,377 @@ export const useGameStore = create<GameState>((set, get) => ({
         manualHeight: !state.manualHeight,
         autoHeight: state.manualHeight ? true : false  // Turn on auto when turning off manual
     })),
+
+    setSnapCycle: (cycle) => set((state) => {
+        // Called every frame while building; only update when the position changed
+        const current = state.snapCycle;
+        const same = cycle === current
+            || (cycle !== null && current !== null && cycle.index === current.index && cycle.total === current.total);
+        return same ? {} : { snapCycle: cycle };
+    }),
+    setTerrain: (terrain) => {
+        saveTerrain(terrain);
+        set({ terrain });
+    },
+    setBuildRules: (rules) => {
+        saveBuildRules(rules);
+        set({ buildRules: rules });
+    },
+    toggleBuildRules: () => set((state) => ({ showBuildRules: !state.showBuildRules })),
     setActiveBuildingSet: (buildingSet) => set({ activeBuildingSet: buildingSet }),
+
+    // History actions
+    beginTransaction: (label) => set((state) => {
+        if (state.pendingTransaction) {
+            // Nested transactions fold into the outermost one
+            return { transactionDepth: state.transactionDepth + 1 };
+        }
+        return {
+            transactionDepth: 1,
+            pendingTransaction: { id: nextHistoryId++, label, timestamp: Date.now(), commands: [] },
+        };
+    }),
+
+    commitTransaction: () => set((state) => {
+        if (!state.pendingTransaction) return {};
+        if (state.transactionDepth > 1) {
+            return { transactionDepth: state.transactionDepth - 1 };
+        }
+        const entry = state.pendingTransaction;
+        return {
+            transactionDepth: 0,
+            pendingTransaction: null,
+            // Empty transactions leave no trace in the undo stack
+            past: entry.commands.length > 0
+                ? [...state.past, entry].slice(-MAX_HISTORY_DEPTH)
+                : state.past,
+        };
+    }),
+
+    undo: () => {
+        // Close any dangling transaction first so it can be undone as a unit
+        if (get().pendingTransaction) {
+            set({ transactionDepth: 1 });
+            get().commitTransaction();
+        }
+        set((state) => {
+            const entry = state.past[state.past.length - 1];
+            if (!entry) return {};
+            const buildings = revertEntry(state.buildings, entry);
+            return {
+                buildings,
+                selectedIds: pruneSelection(state.selectedIds, buildings),
+                past: state.past.slice(0, -1),
+                future: [...state.future, entry],
+            };
+        });
+    },
+
+    redo: () => set((state) => {
+        if (state.pendingTransaction) return {};
+        const entry = state.future[state.future.length - 1];
+        if (!entry) return {};
+        const buildings = applyEntry(state.buildings, entry);
+        return {
+            buildings,
+            selectedIds: pruneSelection(state.selectedIds, buildings),
+            past: [...state.past, entry].slice(-MAX_HISTORY_DEPTH),
+            future: state.future.slice(0, -1),
+        };
+    }),
+
+    clearHistory: () => set({ past: [], future: [], pendingTransaction: null, transactionDepth: 0 }),
+
+    // Selection actions
+    setInteractionMode: (mode) => set((state) => ({
+        interactionMode: mode,
+        selectionRect: null,
+        selectedIds: mode === 'build' ? [] : state.selectedIds,
+        selectionCollisions: [],
+    })),
+
+    selectBuildings: (ids, mode = 'replace') => set((state) => {
+        if (mode === 'replace') return { selectedIds: [...new Set(ids)], selectionCollisions: [] };
+        const selected = new Set(state.selectedIds);
+        for (const id of ids) {
+            if (mode === 'toggle' && selected.has(id)) {
+                selected.delete(id);
+            } else {
+                selected.add(id);
+            }
+        }
+        return { selectedIds: [...selected], selectionCollisions: [] };
+    }),
+
+    clearSelection: () => set({ selectedIds: [], selectionCollisions: [] }),
+    setSelectionRect: (rect) => set({ selectionRect: rect }),
+
+    deleteSelected: () => set((state) => {
+        const ids = withCascade(state, state.selectedIds);
+        const command = createRemoveCommand(state.buildings, ids);
+        if (!command) return {};
+        const removedIds = new Set(ids);
+        return {
+            buildings: state.buildings.filter((b) => !removedIds.has(b.id)),
+            selectedIds: [],
+            ...recordCommand(
+                state,
+                command,
+                cascadeLabel(`Delete ${state.selectedIds.length} Pieces`, ids.length - state.selectedIds.length)
+            ),
+        };
+    }),
+
+    moveSelected: (delta) => set((state) => {
+        const selected = new Set(state.selectedIds);
+        const before = state.buildings.filter((b) => selected.has(b.id));
+        if (before.length === 0) return {};
+        const after = translateBuildings(before, delta);
+        // Moves into other pieces are refused, like placements; the blockers get highlighted
+        const blocking = findBlockingPieces(state.buildings, before, after);
+        if (blocking.length > 0) return { selectionCollisions: blocking };
+        const afterById = new Map(after.map((b) => [b.id, b]));
+        return {
+            buildings: state.buildings.map((b) => afterById.get(b.id) ?? b),
+            selectionCollisions: [],
+            ...recordCommand(state, { kind: 'update', before, after }, `Move ${before.length} Pieces`),
+        };
+    }),
+
+    rotateSelected: (direction) => set((state) => {
+        const selected = new Set(state.selectedIds);
+        const before = state.buildings.filter((b) => selected.has(b.id));
+        const pivot = getSelectionPivot(before);
+        if (!pivot) return {};
+        // Rotate in the pivot piece's own increments so it stays on its lattice
+        const angle = direction * getRotationIncrement(pivot.type);
+        const after = rotateBuildingsAround(before, pivot.position, angle);
+        const blocking = findBlockingPieces(state.buildings, before, after);
+        if (blocking.length > 0) return { selectionCollisions: blocking };
+        const afterById = new Map(after.map((b) => [b.id, b]));
+        return {
+            buildings: state.buildings.map((b) => afterById.get(b.id) ?? b),
+            selectionCollisions: [],
+            ...recordCommand(state, { kind: 'update', before, after }, `Rotate ${before.length} Pieces`),
+        };
+    }),
+
+    duplicateSelected: () => set((state) => {
+        const selected = new Set(state.selectedIds);
+        const originals = state.buildings.filter((b) => selected.has(b.id));
+        if (originals.length === 0) return {};
+        // Beside the whole selection, so copies don't land on the other originals
+        const copies = duplicateBuildings(originals, getDuplicateOffset(originals));
+        // Copies that would overlap a piece are refused, like moves; the blockers get highlighted
+        const blocking = findOverlappingBuildings(copies, state.buildings);
+        if (blocking.length > 0) return { selectionCollisions: blocking };
+        return {
+            buildings: [...state.buildings, ...copies],
+            selectedIds: copies.map((b) => b.id),
+            selectionCollisions: [],
+            ...recordCommand(state, { kind: 'add', buildings: copies }, `Duplicate ${copies.length} Pieces`),
+        };
+    }),
+
+    // Clipboard actions
+    copySelected: () => set((state) => {
+        const selected = new Set(state.selectedIds);
+        const group = createPlacementGroup(state.buildings.filter((b) => selected.has(b.id)));
+        return group ? { clipboard: group } : {};
+    }),
+
+    cutSelected: () => {
+        const { selectedIds } = get();
+        if (selectedIds.length === 0) return;
+        get().copySelected();
+        get().beginTransaction(`Cut ${selectedIds.length} Pieces`);
+        get().deleteSelected();
+        get().commitTransaction();
+    },
+
+    startPaste: () => set((state) => {
+        if (!state.clipboard) return {};
+        // Pasting happens in build mode where the ghost follows the cursor
+        return {
+            placementGroup: state.clipboard,
+            activePrefabId: null,
+            interactionMode: 'build',
+            selectedIds: [],
+            selectionRect: null,
+        };
+    }),
+
+    cancelPlacement: () => set({ placementGroup: null, placementCollisions: [], activePrefabId: null }),
+
+    setPlacementCollisions: (ids) => set((state) => {
+        // Called every frame while placing; only update when the set actually changed
+        const same = ids.length === state.placementCollisions.length
+            && ids.every((id, i) => id === state.placementCollisions[i]);
+        return same ? {} : { placementCollisions: ids };
+    }),
+
+    startMergeImport: (buildings, name) => set(() => {
+        // Fresh ids are generated when the group is instantiated, so imported
+        // ids can never collide with existing ones
+        const group = createPlacementGroup(buildings, name);
+        if (!group) return {};
+        return {
+            placementGroup: { ...group, label: `Merge "${name}"`, placeOnce: true },
+            placementCollisions: [],
+            activePrefabId: null,
+            interactionMode: 'build',
+            selectedIds: [],
+            selectionRect: null,
+        };
+    }),
+
+    // Prefab actions
+    savePrefabFromSelection: (name) => {
+        const { buildings, selectedIds } = get();
+        const selected = new Set(selectedIds);
+        const pieces = buildings.filter((b) => selected.has(b.id));
+        if (pieces.length === 0) return null;
+
+        const now = Date.now();
+        const prefab: SavedPrefab = {
+            version: BLUEPRINT_VERSION,
+            id: crypto.randomUUID(),
+            name,
+            createdAt: now,
+            lastModified: now,
+            buildings: pieces,
+        };
+        return get().addPrefab(prefab) ? prefab : null;
+    },
+
+    addPrefab: (prefab) => {
+        // Re-importing a prefab with the same id replaces the old copy
+        const prefabs = [...get().prefabs.filter((p) => p.id !== prefab.id), prefab];
+        if (!savePrefabs(prefabs)) return false;
+        set({ prefabs });
+        return true;
+    },
+
+    deletePrefab: (id) => {
+        const prefabs = get().prefabs.filter((p) => p.id !== id);
+        if (!savePrefabs(prefabs)) return false;
+        set((state) => (state.activePrefabId === id
+            ? { prefabs, activePrefabId: null, placementGroup: null }
+            : { prefabs }));
+        return true;
+    },
+
+    pickPrefab: (id) => set((state) => {
+        const prefab = state.prefabs.find((p) => p.id === id);
+        const group = prefab ? createPlacementGroup(prefab.buildings, prefab.name) : null;
+        if (!group) return {};
+        return {
+            placementGroup: group,
+            activePrefabId: id,
+            interactionMode: 'build',
+            selectedIds: [],
+            selectionRect: null,
+        };
+    }),
+
+    // Blueprint actions
+    initBlueprints: async () => {
+        const blueprints = await loadBlueprints();
+        set({ blueprints, blueprintsLoaded: true });
+    },
+
+    setShowBlueprintManager: (show) => set({ showBlueprintManager: show }),
+
+    saveBlueprintAs: async (name) => {
+        const { buildings } = get();
+        const now = Date.now();
+        const blueprint: StoredBlueprint = {
+            version: BLUEPRINT_VERSION,
+            id: crypto.randomUUID(),
+            name,
+            createdAt: now,
+            lastModified: now,
+            buildings,
+            thumbnail: renderBlueprintThumbnail(buildings),
+        };
+        if (!(await putBlueprint(blueprint))) return null;
+        set((state) => ({
+            blueprints: upsertById(state.blueprints, blueprint),
+            activeBlueprintId: blueprint.id,
+            savedBuildings: buildings,
+        }));
+        return blueprint;
+    },
+
+    overwriteBlueprint: async (id) => {
+        const { buildings, blueprints } = get();
+        const existing = blueprints.find((b) => b.id === id);
+        if (!existing) return false;
+        const blueprint: StoredBlueprint = {
+            ...existing,
+            buildings,
+            thumbnail: renderBlueprintThumbnail(buildings),
+            lastModified: Date.now(),
+        };
+        if (!(await putBlueprint(blueprint))) return false;
+        set((state) => ({
+            blueprints: upsertById(state.blueprints, blueprint),
+            activeBlueprintId: id,
+            savedBuildings: buildings,
+        }));
+        return true;
+    },
+
+    renameBlueprint: async (id, name) => {
+        const existing = get().blueprints.find((b) => b.id === id);
+        if (!existing) return false;
+        const blueprint = { ...existing, name, lastModified: Date.now() };
+        if (!(await putBlueprint(blueprint))) return false;
+        set((state) => ({ blueprints: upsertById(state.blueprints, blueprint) }));
+        return true;
+    },
+
+    duplicateBlueprint: async (id) => {
+        const source = get().blueprints.find((b) => b.id === id);
+        if (!source) return false;
+        const now = Date.now();
+        const copy: StoredBlueprint = {
+            ...source,
+            id: crypto.randomUUID(),
+            name: `${source.name} (Copy)`,
+            createdAt: now,
+            lastModified: now,
+        };
+        if (!(await putBlueprint(copy))) return false;
+        set((state) => ({ blueprints: upsertById(state.blueprints, copy) }));
+        return true;
+    },
+
+    deleteBlueprint: async (id) => {
+        if (!(await removeBlueprint(id))) return false;
+        set((state) => ({
+            blueprints: state.blueprints.filter((b) => b.id !== id),
+            activeBlueprintId: state.activeBlueprintId === id ? null : state.activeBlueprintId,
+        }));
+        return true;
+    },
+
+    loadBlueprint: (id) => {
+        const blueprint = get().blueprints.find((b) => b.id === id);
+        if (!blueprint) return;
+        get().setBuildings(blueprint.buildings, `Load "${blueprint.name}"`);
+        set({ activeBlueprintId: id, savedBuildings: get().buildings });
+    },
+
+    restoreSession: (record) => {
+        get().setBuildings(record.buildings, 'Restore Session');
+        // The restored layout is still unsaved, so keep it dirty for the next autosave
+        set((state) => ({
+            activeBlueprintId: state.blueprints.some((b) => b.id === record.activeBlueprintId)
+                ? record.activeBlueprintId
+                : null,
+        }));
+    },
 }));
 
 // Expose store for debugging in browser console
@@ -0,0 +1,116 @@
+import { BuildingData } from '../types';
+
+// =============================================================================
+// History Commands
+// =============================================================================
+
+/**
+ * A single reversible mutation of the buildings list.
+ * Commands store enough data to be applied and reverted without snapshots
+ * of the whole layout (except `replace`, which is inherently a full swap).
+ */
+export type HistoryCommand =
+    | { kind: 'add'; buildings: BuildingData[] }
+    | { kind: 'remove'; buildings: BuildingData[]; indices: number[] }
+    | { kind: 'update'; before: BuildingData[]; after: BuildingData[] }
+    | { kind: 'replace'; before: BuildingData[]; after: BuildingData[] };
+
+/**
+ * One undoable step. Transactions group several commands into one entry.
+ */
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    timestamp: number;
+    commands: HistoryCommand[];
+}
+
+/** Maximum number of undo steps kept in memory */
+export const MAX_HISTORY_DEPTH = 100;
+
+// =============================================================================
+// Apply / Revert
+// =============================================================================
+
+/**
+ * Swap buildings in place by id, keeping list order.
+ */
+const replaceById = (buildings: BuildingData[], replacements: BuildingData[]): BuildingData[] => {
+    const byId = new Map(replacements.map((b) => [b.id, b]));
+    return buildings.map((b) => byId.get(b.id) ?? b);
+};
+
+/**
+ * Apply a command to a buildings list, returning the new list.
+ */
+export const applyCommand = (buildings: BuildingData[], command: HistoryCommand): BuildingData[] => {
+    switch (command.kind) {
+        case 'add':
+            return [...buildings, ...command.buildings];
+        case 'remove': {
+            const removedIds = new Set(command.buildings.map((b) => b.id));
+            return buildings.filter((b) => !removedIds.has(b.id));
+        }
+        case 'update':
+            return replaceById(buildings, command.after);
+        case 'replace':
+            return command.after;
+    }
+};
+
+/**
+ * Revert a command on a buildings list, returning the previous list.
+ * Removed buildings are re-inserted at their original indices so render order is stable.
+ */
+export const revertCommand = (buildings: BuildingData[], command: HistoryCommand): BuildingData[] => {
+    switch (command.kind) {
+        case 'add': {
+            const addedIds = new Set(command.buildings.map((b) => b.id));
+            return buildings.filter((b) => !addedIds.has(b.id));
+        }
+        case 'remove': {
+            const restored = [...buildings];
+            // Indices were captured in ascending order, so re-inserting in order is safe
+            command.buildings.forEach((b, i) => {
+                restored.splice(Math.min(command.indices[i], restored.length), 0, b);
+            });
+            return restored;
+        }
+        case 'update':
+            return replaceById(buildings, command.before);
+        case 'replace':
+            return command.before;
+    }
+};
+
+/**
+ * Apply all commands of an entry in order.
+ */
+export const applyEntry = (buildings: BuildingData[], entry: HistoryEntry): BuildingData[] => {
+    return entry.commands.reduce(applyCommand, buildings);
+};
+
+/**
+ * Revert all commands of an entry in reverse order.
+ */
+export const revertEntry = (buildings: BuildingData[], entry: HistoryEntry): BuildingData[] => {
+    return entry.commands.reduceRight(revertCommand, buildings);
+};
+
+/**
+ * Build a `remove` command for the given ids, capturing original indices.
+ * Returns null if none of the ids exist.
+ */
+export const createRemoveCommand = (buildings: BuildingData[], ids: string[]): HistoryCommand | null => {
+    const idSet = new Set(ids);
+    const removed: BuildingData[] = [];
+    const indices: number[] = [];
+    buildings.forEach((b, index) => {
+        if (idSet.has(b.id)) {
+            removed.push(b);
+            indices.push(index);
+        }
+    });
+    if (removed.length === 0) return null;
+    return { kind: 'remove', buildings: removed, indices };
+};
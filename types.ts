@@ -18,6 +18,17 @@ export interface BuildingPalette {
   incline: string;
 }
 
+// Crafting resources consumed by building pieces
+export enum ResourceType {
+  GRANITE = 'GRANITE',
+  PLASTONE = 'PLASTONE',
+  STEEL_INGOT = 'STEEL_INGOT',
+  SILICONE_BLOCK = 'SILICONE_BLOCK',
+}
+
+// Amount of each resource (missing entries mean zero)
+export type ResourceCost = Partial<Record<ResourceType, number>>;
+
 export enum BuildingType {
   // Foundations
   SQUARE_FOUNDATION = 'SQUARE_FOUNDATION',
@@ -63,6 +74,19 @@ export interface SavedBlueprint {
   buildings: BuildingData[];
 }
 
+// Named blueprint slot in the browser blueprint manager.
+// Thumbnail is a top-down data URL rendered when the slot is saved.
+export interface StoredBlueprint extends SavedBlueprint {
+  id: string;
+  thumbnail?: string;
+}
+
+// Reusable group of pieces (e.g. "2x2 bunker"), placed like a single piece.
+// Same shape as SavedBlueprint plus a stable id for the prefab library.
+export interface SavedPrefab extends SavedBlueprint {
+  id: string;
+}
+
 // Legacy single-point socket (kept for walls/roofs)
 export interface Socket {
   position: THREE.Vector3; // World position of the connection point
@@ -96,6 +120,8 @@ export const UNIT_SIZE = 4;
 export const WALL_HEIGHT = 3;
 export const HALF_WALL_HEIGHT = 1.5;
 export const FOUNDATION_HEIGHT = 0.2;
+export const WALL_THICKNESS = 0.2;
+export const ROOF_HEIGHT = 3;
 
 // Triangle math
 // Side = 4.
@@ -1,37 +1,81 @@
 import * as THREE from 'three';
-import { BuildingType, SocketType } from '../types';
+import { BuildingData, BuildingType, SocketType } from '../types';
+import type { PlacementIssue } from '../utils/geometry';
+import type { Terrain } from '../utils/terrain';
+import type { BuildRules } from '../data/buildRules';
+import type { SnapAlignment } from '../data/BuildingRegistry';
+
+// Why a snap target near the cursor produced no placement
+export type SnapRejectionReason =
+  | 'edge-occupied'          // Another piece's edge already sits on the target edge
+  | 'length-mismatch'        // Ghost edge and target edge differ in length
+  | 'no-edge-transform'      // The ghost edge can't be laid onto the target edge
+  | 'not-preferred-target'   // The cursor is raised over a preferred socket type (e.g. wall tops)
+  | 'target-not-allowed'     // The piece's snap rules exclude this target piece or socket
+  | 'out-of-range'           // Target socket is beyond the snap radius
+  | 'no-matching-ghost-socket';
+
+// Fields both snapping paths record. Rejected candidates carry a reason and
+// no placement or score.
+interface DebugSnapCandidateBase {
+  targetBuildingId: string;
+  targetSocketType: SocketType;
+  targetPosition: [number, number, number];            // Socket position, or edge center
+  ghostSocketType: SocketType | null;                  // null when rejected before a ghost socket was tried
+  ghostPosition: [number, number, number] | null;      // Local ghost socket position, or edge center
+  resultingPosition: [number, number, number] | null;
+  resultingRotation: [number, number, number] | null;
+  distanceToCursor: number | null;                     // From the resulting piece center
+  rotationPenalty: number;                             // Added when the rotation differs from the manual rotation
+  scoreBias: number;                                   // Added by the piece's score biases (e.g. wall tops when raised)
+  preferredBonus: number;                              // Subtracted for the sticky or cycled target
+  score: number | null;                                // distance + penalty + bias - bonus; lowest wins
+  rejection: SnapRejectionReason | null;
+}
+
+// A ghost edge laid onto a target foundation edge
+export interface DebugEdgeSnapCandidate extends DebugSnapCandidateBase {
+  kind: 'edge';
+  targetEdge: [[number, number, number], [number, number, number]];         // Start, end
+  ghostEdge: [[number, number, number], [number, number, number]] | null;  // Local start, end; null when rejected before a ghost edge was tried
+}
+
+// A ghost socket placed on a target point socket
+export interface DebugSocketSnapCandidate extends DebugSnapCandidateBase {
+  kind: 'socket';
+  targetNormal: [number, number, number];
+  alignment: SnapAlignment | null;  // How the ghost was turned; null when rejected before a ghost socket was tried
+}
+
+// One snap candidate, from either snapping path
+export type DebugSnapCandidate = DebugEdgeSnapCandidate | DebugSocketSnapCandidate;
+
+// Everything calculateSnap decided for one cursor position
+export interface DebugSnapCalculation {
+  rayPoint: [number, number, number];
+  compatibleSocketsFound: number;      // Target edges and sockets near the cursor
+  candidates: DebugSnapCandidate[];
+  selectedCandidate: number | null;    // Index into candidates, null on the grid
+  pinned: boolean;                     // The selection was pinned by Tab cycling rather than scored
+  finalPosition: [number, number, number];
+  finalRotation: [number, number, number];
+  isValid: boolean;
+  issues?: PlacementIssue[];  // Why the placement was rejected (empty when valid)
+  snappedToSocket: boolean;
+  socketWorldY?: number | null;
+}
 
 // Debug recording frame - captures one moment in time
 export interface DebugFrame {
   timestamp: number;
   cursorPosition: [number, number, number] | null; // 3D raycast point
   cursorScreen: [number, number]; // Screen coordinates
-  activeType: BuildingType;
+  activeType: BuildingType; // Piece the ghost snaps as (the anchor piece while pasting)
   rotation: number; // Current manual rotation
+  preferredTarget?: RecordedSnapTarget | null; // Sticky/cycled snap target passed to calculateSnap
 
   // Snap calculation details
-  snapCalculation?: {
-    rayPoint: [number, number, number];
-    compatibleSocketsFound: number;
-    candidates: Array<{
-      targetSocketType: SocketType;
-      targetSocketPos: [number, number, number];
-      targetSocketNormal: [number, number, number];
-      ghostSocketType: SocketType;
-      ghostSocketPos: [number, number, number];
-      ghostSocketNormal: [number, number, number];
-      alignmentScore: number;
-      resultingPosition: [number, number, number];
-      resultingRotation: [number, number, number];
-      distanceToCursor: number;
-      wasOccupied: boolean;
-    }>;
-    selectedCandidate: number | null; // Index into candidates array
-    finalPosition: [number, number, number];
-    finalRotation: [number, number, number];
-    isValid: boolean;
-    snappedToSocket: boolean;
-  };
+  snapCalculation?: DebugSnapCalculation;
 
   // Keyboard events
   keyPress?: {
@@ -40,13 +84,33 @@ export interface DebugFrame {
   };
 
   // Building placed/removed
-  buildingAction?: {
-    action: 'place' | 'remove';
-    buildingId: string;
-    buildingType: BuildingType;
-    position: [number, number, number];
-    rotation: [number, number, number];
-  };
+  buildingAction?: DebugBuildingAction;
+}
+
+// One piece entering, changing or leaving the layout. A place replaces any
+// piece with the same id (a move, or undoing one).
+export interface DebugBuildingAction {
+  action: 'place' | 'remove';
+  buildingId: string;
+  buildingType: BuildingType;
+  position: [number, number, number];
+  rotation: [number, number, number];
+  index?: number;  // 'place' only: where the piece lands in the layout (version 4+, appended when unset)
+}
+
+// PreferredSnapTarget in JSON form
+export interface RecordedSnapTarget {
+  type: 'edge' | 'socket';
+  socketType?: SocketType;
+  position: [number, number, number];
+  candidateKey?: string;
+}
+
+// What the planner held when recording started, so snaps can be replayed
+export interface DebugInitialState {
+  buildings: BuildingData[];
+  terrain: Terrain | null;
+  buildRules: BuildRules;
 }
 
 // Debug recording session
@@ -55,6 +119,7 @@ export interface DebugRecording {
   startTime: number;
   endTime: number;
   frames: DebugFrame[];
+  initialState?: DebugInitialState; // Version 2+
   metadata: {
     userAgent: string;
     screenResolution: [number, number];
@@ -62,6 +127,20 @@ export interface DebugRecording {
   };
 }
 
+// Frame categories in a recording
+export type DebugFrameKind = 'snap' | 'key' | 'action';
+
+// Frame kinds a recording can leave out. Layout actions are always kept,
+// since every later snap replays on the layout they rebuild.
+export type DebugFilterableFrameKind = Exclude<DebugFrameKind, 'action'>;
+
+// Recorder settings, fixed for the length of a recording
+export interface DebugRecorderSettings {
+  windowSeconds: number | null;  // Keep only the last N seconds (null: keep everything)
+  changesOnly: boolean;          // Skip snap frames whose result matches the previous snap frame
+  kinds: Record<DebugFilterableFrameKind, boolean>;
+}
+
 // Playback state
 export interface PlaybackState {
   recording: DebugRecording;
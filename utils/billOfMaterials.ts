@@ -0,0 +1,110 @@
+import { BuildingData, BuildingSet, BuildingType, ResourceCost, ResourceType } from '../types';
+import { getBuildingDef, formatBuildingType } from '../data/BuildingRegistry';
+import { RESOURCE_LABELS, RESOURCE_ORDER } from '../data/resources';
+
+export interface BillOfMaterialsLine {
+  type: BuildingType;
+  label: string;
+  count: number;
+  unitCost: ResourceCost;
+  totalCost: ResourceCost;
+}
+
+export interface BillOfMaterials {
+  buildingSet: BuildingSet;
+  pieceCount: number;
+  lines: BillOfMaterialsLine[];   // One per building type present, most used first
+  totals: ResourceCost;
+  resources: ResourceType[];      // Resources with a non-zero total, in display order
+}
+
+const addCost = (target: ResourceCost, cost: ResourceCost, times = 1) => {
+  for (const resource of RESOURCE_ORDER) {
+    const amount = cost[resource];
+    if (amount) target[resource] = (target[resource] ?? 0) + amount * times;
+  }
+};
+
+/**
+ * Count pieces by type and total their resource costs for a building set.
+ */
+export const computeBillOfMaterials = (buildings: BuildingData[], buildingSet: BuildingSet): BillOfMaterials => {
+  const counts = new Map<BuildingType, number>();
+  buildings.forEach((b) => counts.set(b.type, (counts.get(b.type) ?? 0) + 1));
+
+  const totals: ResourceCost = {};
+  const lines = [...counts.entries()]
+    .map(([type, count]) => {
+      const unitCost = getBuildingDef(type).costs[buildingSet];
+      const totalCost: ResourceCost = {};
+      addCost(totalCost, unitCost, count);
+      addCost(totals, totalCost);
+      return { type, label: formatBuildingType(type), count, unitCost, totalCost };
+    })
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  return {
+    buildingSet,
+    pieceCount: buildings.length,
+    lines,
+    totals,
+    resources: RESOURCE_ORDER.filter((r) => (totals[r] ?? 0) > 0),
+  };
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with one row per piece type plus a TOTAL row.
+ * Columns: piece, count, then the total of each resource used.
+ */
+export const billOfMaterialsToCsv = (bom: BillOfMaterials): string => {
+  const header = ['Piece', 'Count', ...bom.resources.map((r) => RESOURCE_LABELS[r])];
+  const rows = bom.lines.map((line) => [
+    line.label,
+    line.count,
+    ...bom.resources.map((r) => line.totalCost[r] ?? 0),
+  ]);
+  rows.push(['TOTAL', bom.pieceCount, ...bom.resources.map((r) => bom.totals[r] ?? 0)]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+};
+
+/**
+ * JSON summary keyed by readable names, for spreadsheets and scripts.
+ */
+export const billOfMaterialsToJson = (bom: BillOfMaterials): string => {
+  const named = (cost: ResourceCost) =>
+    Object.fromEntries(bom.resources.filter((r) => cost[r]).map((r) => [RESOURCE_LABELS[r], cost[r]]));
+
+  return JSON.stringify({
+    buildingSet: bom.buildingSet,
+    pieceCount: bom.pieceCount,
+    pieces: bom.lines.map((line) => ({
+      type: line.type,
+      count: line.count,
+      unitCost: named(line.unitCost),
+      totalCost: named(line.totalCost),
+    })),
+    totals: named(bom.totals),
+  }, null, 2);
+};
+
+/**
+ * Download the bill of materials as `.csv` or `.json`.
+ */
+export const downloadBillOfMaterials = (bom: BillOfMaterials, format: 'csv' | 'json', name = 'blueprint') => {
+  const content = format === 'csv' ? billOfMaterialsToCsv(bom) : billOfMaterialsToJson(bom);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.bom.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,294 @@
+import { BuildingData, BuildingType, SavedBlueprint, UNIT_SIZE } from '../types';
+import { BLUEPRINT_VERSION } from './blueprintSchema';
+
+// =============================================================================
+// Compact Blueprint Codes
+// =============================================================================
+//
+// Binary layout (all integers are LEB128 varints, signed ones zigzag-encoded):
+//   codec version
+//   name: byte length + UTF-8
+//   piece count
+//   per piece:
+//     type index (into BUILDING_TYPE_ORDER)
+//     flags (POSITION_RAW, ROTATION_RAW)
+//     position: 3 lattice pairs (i, j)  |  3 float64 if POSITION_RAW
+//     rotation: Y step count            |  3 float64 if ROTATION_RAW
+//
+// Lattice values are i * LATTICE_STEP + j * LATTICE_STEP * sqrt(3), which covers
+// square and triangle snapping positions and the standard heights. A vector is
+// only stored on the lattice when rebuilding it gives back the exact same
+// float64; anything else (free placement, curved offsets, float noise from
+// snapping) is stored raw, so decoding is bit-exact.
+//
+// Ids are not stored; decoded pieces get fresh ids. Decoding rejects
+// non-finite numbers; callers still validate the pieces before loading them.
+
+const CODE_VERSION = 1;
+
+/** Position quantum: UNIT_SIZE / 120 divides the unit, half unit and 0.2 foundation height */
+const LATTICE_STEP = UNIT_SIZE / 120;
+const LATTICE_STEP_SQRT3 = LATTICE_STEP * Math.sqrt(3);
+/** Largest |j| tried when searching for a triangle-lattice representation */
+const MAX_SQRT3_COEFFICIENT = 240;
+
+/** Rotation quantum: 15° covers square (90°), triangle (60°/30°) and curved (45°) increments */
+const ROTATION_STEP = Math.PI / 12;
+
+const POSITION_RAW = 1;
+const ROTATION_RAW = 2;
+
+/**
+ * Fixed ordering of building types in the binary format.
+ * Append new types at the end; never reorder (existing codes would break).
+ */
+const BUILDING_TYPE_ORDER: BuildingType[] = [
+  BuildingType.SQUARE_FOUNDATION,
+  BuildingType.TRIANGLE_FOUNDATION,
+  BuildingType.TRIANGLE_FOUNDATION_2,
+  BuildingType.CURVED_FOUNDATION,
+  BuildingType.SQUARE_STRUCTURE,
+  BuildingType.TRIANGLE_STRUCTURE,
+  BuildingType.CURVED_STRUCTURE,
+  BuildingType.WALL,
+  BuildingType.HALF_WALL,
+  BuildingType.WINDOW_WALL,
+  BuildingType.DOORWAY,
+  BuildingType.CURVED_WALL,
+  BuildingType.CURVED_HALF_WALL,
+  BuildingType.SQUARE_ROOF,
+  BuildingType.TRIANGLE_ROOF,
+  BuildingType.STAIRS,
+  BuildingType.STAIRS_2,
+  BuildingType.RAMP,
+];
+
+// =============================================================================
+// Byte Writer / Reader
+// =============================================================================
+
+const createWriter = () => {
+  const bytes: number[] = [];
+  const float = new DataView(new ArrayBuffer(8));
+
+  const writeUint = (value: number) => {
+    let v = value;
+    while (v >= 0x80) {
+      bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    bytes.push(v);
+  };
+
+  return {
+    writeUint,
+    writeInt: (value: number) => writeUint(value < 0 ? -value * 2 - 1 : value * 2),
+    writeFloat: (value: number) => {
+      float.setFloat64(0, value);
+      for (let i = 0; i < 8; i++) bytes.push(float.getUint8(i));
+    },
+    writeString: (value: string) => {
+      const encoded = new TextEncoder().encode(value);
+      writeUint(encoded.length);
+      encoded.forEach((b) => bytes.push(b));
+    },
+    toBytes: () => Uint8Array.from(bytes),
+  };
+};
+
+const createReader = (bytes: Uint8Array) => {
+  let offset = 0;
+  const float = new DataView(new ArrayBuffer(8));
+
+  const readByte = () => {
+    if (offset >= bytes.length) throw new Error('Blueprint code is truncated');
+    return bytes[offset++];
+  };
+
+  const readUint = () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = readByte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  };
+
+  return {
+    readUint,
+    readInt: () => {
+      const v = readUint();
+      return v % 2 === 0 ? v / 2 : -(v + 1) / 2;
+    },
+    readFloat: () => {
+      for (let i = 0; i < 8; i++) float.setUint8(i, readByte());
+      return float.getFloat64(0);
+    },
+    readString: () => {
+      const length = readUint();
+      if (offset + length > bytes.length) throw new Error('Blueprint code is truncated');
+      const value = new TextDecoder().decode(bytes.subarray(offset, offset + length));
+      offset += length;
+      return value;
+    },
+    isAtEnd: () => offset === bytes.length,
+  };
+};
+
+// =============================================================================
+// Quantization
+// =============================================================================
+
+/**
+ * Find (i, j) whose fromLattice(i, j) is bit-identical to `value` (so -0 and
+ * float noise stay raw), preferring the smallest |j|. Returns null if there is none.
+ */
+const toLattice = (value: number): [number, number] | null => {
+  if (!Number.isFinite(value)) return null;
+  for (let n = 0; n <= MAX_SQRT3_COEFFICIENT * 2; n++) {
+    // 0, 1, -1, 2, -2, ...
+    const j = n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+    const i = Math.round((value - j * LATTICE_STEP_SQRT3) / LATTICE_STEP);
+    if (Object.is(fromLattice(i, j), value)) return [i, j];
+  }
+  return null;
+};
+
+const fromLattice = (i: number, j: number) => i * LATTICE_STEP + j * LATTICE_STEP_SQRT3;
+
+const toRotationSteps = (rotation: [number, number, number]): number | null => {
+  if (!Object.is(rotation[0], 0) || !Object.is(rotation[2], 0) || !Number.isFinite(rotation[1])) return null;
+  // + 0 turns a -0 step count into 0 (varints can't hold -0), so a -0 angle is stored raw
+  const steps = Math.round(rotation[1] / ROTATION_STEP) + 0;
+  return Object.is(steps * ROTATION_STEP, rotation[1]) ? steps : null;
+};
+
+const readFiniteVector = (values: number[], what: string, piece: number): [number, number, number] => {
+  if (!values.every(Number.isFinite)) throw new Error(`Piece ${piece} has a non-finite ${what}`);
+  return values as [number, number, number];
+};
+
+// =============================================================================
+// base64url
+// =============================================================================
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string): Uint8Array => {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Pack a blueprint into a URL-safe code.
+ */
+export const encodeBlueprintCode = (blueprint: Pick<SavedBlueprint, 'name' | 'buildings'>): string => {
+  const writer = createWriter();
+  writer.writeUint(CODE_VERSION);
+  writer.writeString(blueprint.name);
+  writer.writeUint(blueprint.buildings.length);
+
+  for (const b of blueprint.buildings) {
+    const typeIndex = BUILDING_TYPE_ORDER.indexOf(b.type);
+    if (typeIndex === -1) throw new Error(`Building type ${b.type} has no blueprint code`);
+
+    const lattice = b.position.map(toLattice);
+    const positionRaw = lattice.some((l) => l === null);
+    const rotationSteps = toRotationSteps(b.rotation);
+    const rotationRaw = rotationSteps === null;
+
+    writer.writeUint(typeIndex);
+    writer.writeUint((positionRaw ? POSITION_RAW : 0) | (rotationRaw ? ROTATION_RAW : 0));
+
+    if (positionRaw) {
+      b.position.forEach(writer.writeFloat);
+    } else {
+      lattice.forEach(([i, j]) => {
+        writer.writeInt(i);
+        writer.writeInt(j);
+      });
+    }
+
+    if (rotationRaw) {
+      b.rotation.forEach(writer.writeFloat);
+    } else {
+      writer.writeInt(rotationSteps);
+    }
+  }
+
+  return toBase64Url(writer.toBytes());
+};
+
+/**
+ * Unpack a code produced by encodeBlueprintCode. Throws on malformed input.
+ */
+export const decodeBlueprintCode = (code: string): SavedBlueprint => {
+  const reader = createReader(fromBase64Url(code.trim()));
+  const version = reader.readUint();
+  if (version !== CODE_VERSION) {
+    throw new Error(`Unsupported blueprint code version ${version}`);
+  }
+
+  const name = reader.readString();
+  const count = reader.readUint();
+  const buildings: BuildingData[] = [];
+
+  for (let n = 0; n < count; n++) {
+    const type = BUILDING_TYPE_ORDER[reader.readUint()];
+    if (!type) throw new Error(`Unknown building type in piece ${n}`);
+    const flags = reader.readUint();
+
+    const position = (flags & POSITION_RAW)
+      ? [reader.readFloat(), reader.readFloat(), reader.readFloat()]
+      : [0, 1, 2].map(() => {
+          const i = reader.readInt();
+          const j = reader.readInt();
+          return fromLattice(i, j);
+        });
+
+    const rotation = (flags & ROTATION_RAW)
+      ? [reader.readFloat(), reader.readFloat(), reader.readFloat()]
+      : [0, reader.readInt() * ROTATION_STEP, 0];
+
+    buildings.push({
+      id: crypto.randomUUID(),
+      type,
+      position: readFiniteVector(position, 'position', n),
+      rotation: readFiniteVector(rotation, 'rotation', n),
+    });
+  }
+
+  if (!reader.isAtEnd()) throw new Error('Unexpected data after blueprint code');
+
+  const now = Date.now();
+  return { version: BLUEPRINT_VERSION, name, createdAt: now, lastModified: now, buildings };
+};
+
+const HASH_PREFIX = '#bp=';
+
+/**
+ * Build a share URL for the current page with the blueprint code in the hash.
+ */
+export const createBlueprintShareUrl = (blueprint: Pick<SavedBlueprint, 'name' | 'buildings'>): string => {
+  const url = new URL(window.location.href);
+  url.hash = HASH_PREFIX.slice(1) + encodeBlueprintCode(blueprint);
+  return url.toString();
+};
+
+/**
+ * Read a blueprint code from a `#bp=` URL hash, or null if there is none.
+ */
+export const getBlueprintCodeFromHash = (hash: string): string | null => {
+  return hash.startsWith(HASH_PREFIX) ? hash.slice(HASH_PREFIX.length) : null;
+};
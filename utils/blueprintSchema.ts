@@ -0,0 +1,193 @@
+import { BuildingData, BuildingType, SavedBlueprint } from '../types';
+
+/** Current blueprint file format version (written by save/export) */
+export const BLUEPRINT_VERSION = 1;
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * Upgrades raw data from version N to N+1, keyed by the source version.
+ * Migrations only reshape data; validation runs once on the final version.
+ *
+ * v0: legacy bare buildings array (`dune-buildings`, very old exports)
+ * v1: SavedBlueprint { version, name, createdAt, lastModified, buildings }
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (data) => {
+    const now = Date.now();
+    return { version: 1, createdAt: now, lastModified: now, buildings: data };
+  },
+};
+
+/**
+ * Detect the format version of raw parsed data. Bare arrays are v0.
+ * Returns null when the data isn't recognisable as a blueprint at all.
+ */
+const detectVersion = (data: unknown): number | null => {
+  if (Array.isArray(data)) return 0;
+  if (data && typeof data === 'object') {
+    const version = (data as { version?: unknown }).version;
+    if (Number.isInteger(version)) return version as number;
+  }
+  return null;
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const BUILDING_TYPES = new Set<string>(Object.values(BuildingType));
+
+/** Fields read from unvalidated input; every one is checked before use */
+type RawBuilding = { id?: unknown; type?: unknown; position?: unknown; rotation?: unknown };
+type RawBlueprint = { name?: unknown; createdAt?: unknown; lastModified?: unknown; buildings?: unknown };
+
+const describe = (value: unknown): string => {
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return `array(${value.length})`;
+  return String(value);
+};
+
+const validateTuple = (value: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(value) || value.length !== 3) {
+    errors.push(`${path}: expected [x, y, z], got ${describe(value)}`);
+    return;
+  }
+  value.forEach((n, i) => {
+    if (typeof n !== 'number' || !Number.isFinite(n)) {
+      errors.push(`${path}[${i}]: expected a finite number, got ${describe(n)}`);
+    }
+  });
+};
+
+/**
+ * Validate a buildings array, collecting every problem rather than stopping
+ * at the first one.
+ */
+export const validateBuildings = (buildings: unknown, path = 'buildings'): string[] => {
+  const errors: string[] = [];
+  if (!Array.isArray(buildings)) {
+    return [`${path}: expected an array, got ${describe(buildings)}`];
+  }
+
+  const seenIds = new Map<string, number>();
+  buildings.forEach((entry: unknown, index) => {
+    const at = `${path}[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${at}: expected an object, got ${describe(entry)}`);
+      return;
+    }
+    const b = entry as RawBuilding;
+
+    if (typeof b.id !== 'string' || b.id.length === 0) {
+      errors.push(`${at}.id: expected a non-empty string, got ${describe(b.id)}`);
+    } else if (seenIds.has(b.id)) {
+      errors.push(`${at}.id: duplicate id "${b.id}" (also used by ${path}[${seenIds.get(b.id)}])`);
+    } else {
+      seenIds.set(b.id, index);
+    }
+
+    if (typeof b.type !== 'string' || !BUILDING_TYPES.has(b.type)) {
+      errors.push(`${at}.type: unknown building type ${describe(b.type)}`);
+    }
+
+    validateTuple(b.position, `${at}.position`, errors);
+    validateTuple(b.rotation, `${at}.rotation`, errors);
+  });
+  return errors;
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Result of parsing a blueprint. `blueprint` is null whenever `errors` is non-empty.
+ * `migratedFrom` is the source version if a migration ran.
+ */
+export interface BlueprintParseResult {
+  blueprint: SavedBlueprint | null;
+  errors: string[];
+  migratedFrom: number | null;
+}
+
+const failure = (errors: string[]): BlueprintParseResult => ({ blueprint: null, errors, migratedFrom: null });
+
+/**
+ * Migrate raw parsed JSON to the current version and validate it strictly.
+ * Only the known SavedBlueprint fields are kept on success; `fallbackName` is
+ * used when the data has no name (e.g. legacy arrays).
+ */
+export const parseBlueprint = (data: unknown, fallbackName = 'Untitled Blueprint'): BlueprintParseResult => {
+  const sourceVersion = detectVersion(data);
+  if (sourceVersion === null) {
+    return failure(['Not a blueprint: expected an object with a numeric "version" or a buildings array']);
+  }
+  if (sourceVersion > BLUEPRINT_VERSION) {
+    return failure([`Blueprint version ${sourceVersion} is newer than this planner supports (v${BLUEPRINT_VERSION})`]);
+  }
+
+  let migrated: unknown = data;
+  for (let version = sourceVersion; version < BLUEPRINT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return failure([`No migration from blueprint version ${version}`]);
+    }
+    migrated = migrate(migrated);
+  }
+
+  if (!migrated || typeof migrated !== 'object' || Array.isArray(migrated)) {
+    return failure([`Not a blueprint: expected an object, got ${describe(migrated)}`]);
+  }
+  const raw = migrated as RawBlueprint;
+
+  const errors: string[] = [];
+  if (raw.name !== undefined && typeof raw.name !== 'string') {
+    errors.push(`name: expected a string, got ${describe(raw.name)}`);
+  }
+  for (const field of ['createdAt', 'lastModified'] as const) {
+    const value = raw[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      errors.push(`${field}: expected a timestamp, got ${describe(value)}`);
+    }
+  }
+  errors.push(...validateBuildings(raw.buildings));
+  if (errors.length > 0) return failure(errors);
+
+  // Validated above
+  const name = raw.name as string | undefined;
+  const buildings = raw.buildings as BuildingData[];
+  const now = Date.now();
+  return {
+    errors: [],
+    migratedFrom: sourceVersion === BLUEPRINT_VERSION ? null : sourceVersion,
+    blueprint: {
+      version: BLUEPRINT_VERSION,
+      name: name || fallbackName,
+      createdAt: (raw.createdAt as number | undefined) ?? now,
+      lastModified: (raw.lastModified as number | undefined) ?? now,
+      buildings: buildings.map((b) => ({
+        id: b.id,
+        type: b.type,
+        position: [...b.position],
+        rotation: [...b.rotation],
+      })),
+    },
+  };
+};
+
+// Errors listed in alerts before the rest are summarised
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * Format parse errors for display in an alert.
+ */
+export const formatBlueprintErrors = (title: string, errors: string[]): string => {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).map((e) => `• ${e}`);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    shown.push(`…and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  }
+  return `${title}\n\n${shown.join('\n')}`;
+};
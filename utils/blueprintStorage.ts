@@ -0,0 +1,215 @@
+import { BuildingData, StoredBlueprint } from '../types';
+import { parseBlueprint } from './blueprintSchema';
+
+// =============================================================================
+// IndexedDB Layout
+// =============================================================================
+
+const DB_NAME = 'dune-planner';
+const DB_VERSION = 1;
+const BLUEPRINT_STORE = 'blueprints'; // StoredBlueprint records keyed by id
+const SESSION_STORE = 'session';      // Misc key/value records (autosave, flags)
+
+const AUTOSAVE_KEY = 'autosave';
+const LEGACY_MIGRATED_KEY = 'legacyMigrated';
+
+// localStorage keys from earlier versions, read once and copied into IndexedDB
+const LOCAL_BLUEPRINTS_KEY = 'dune-blueprints'; // Blueprint manager before IndexedDB
+const LEGACY_BLUEPRINT_KEY = 'dune-blueprint';  // Single quick-save slot
+const LEGACY_BUILDINGS_KEY = 'dune-buildings';  // Oldest format: a bare buildings array
+
+/**
+ * Last autosaved session. `dirty` is true when the layout differs from the
+ * last explicit save/load, which is what triggers the recovery prompt.
+ */
+export interface AutosaveRecord {
+  buildings: BuildingData[];
+  activeBlueprintId: string | null;
+  savedAt: number;
+  dirty: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BLUEPRINT_STORE)) {
+        db.createObjectStore(BLUEPRINT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Run a single request in its own transaction and resolve once the
+ * transaction has committed (not just when the request succeeded).
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// =============================================================================
+// Legacy localStorage
+// =============================================================================
+
+/**
+ * Parse one legacy localStorage key into blueprints. Every entry goes through
+ * the schema (so v0 arrays are migrated); invalid entries are logged and skipped.
+ */
+const readLegacyKey = (key: string, fallbackName: string, isSlotList: boolean): StoredBlueprint[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    const entries: unknown[] = isSlotList ? (Array.isArray(parsed) ? parsed : []) : [parsed];
+    const blueprints: StoredBlueprint[] = [];
+    entries.forEach((entry, index) => {
+      const { blueprint, errors } = parseBlueprint(entry, fallbackName);
+      if (!blueprint) {
+        console.error(`Ignoring invalid legacy blueprint ${index} in "${key}"`, errors);
+        return;
+      }
+      // Slot metadata kept next to the blueprint fields; a v0 array has none
+      const { id, thumbnail } = (Array.isArray(entry) ? {} : entry) as { id?: unknown; thumbnail?: unknown };
+      blueprints.push({
+        ...blueprint,
+        id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+        thumbnail: typeof thumbnail === 'string' ? thumbnail : undefined,
+      });
+    });
+    return blueprints;
+  } catch (e) {
+    console.error(`Failed to read legacy blueprints from "${key}"`, e);
+    return [];
+  }
+};
+
+/**
+ * Read blueprints saved by earlier versions to localStorage, from all legacy keys.
+ */
+const readLegacyBlueprints = (): StoredBlueprint[] => {
+  if (typeof localStorage === 'undefined') return [];
+  const blueprints = [
+    ...readLegacyKey(LOCAL_BLUEPRINTS_KEY, 'Untitled Blueprint', true),
+    ...readLegacyKey(LEGACY_BLUEPRINT_KEY, 'Quick Save', false),
+    ...readLegacyKey(LEGACY_BUILDINGS_KEY, 'Legacy Save', false),
+  ];
+  // Slot lists edited by hand could repeat an id; keep the first so none overwrite each other
+  const seen = new Set<string>();
+  return blueprints.map((bp) => {
+    if (!seen.has(bp.id)) {
+      seen.add(bp.id);
+      return bp;
+    }
+    return { ...bp, id: crypto.randomUUID() };
+  });
+};
+
+// =============================================================================
+// Blueprints
+// =============================================================================
+
+/**
+ * Load all blueprint slots.
+ * The first time this runs against a fresh database, blueprints from the old
+ * localStorage keys are copied in. If IndexedDB is unavailable the legacy
+ * blueprints are still returned (read-only: later writes will fail).
+ */
+export const loadBlueprints = async (): Promise<StoredBlueprint[]> => {
+  try {
+    const migrated = await runRequest(SESSION_STORE, 'readonly', (s) => s.get(LEGACY_MIGRATED_KEY));
+    if (!migrated) {
+      const legacy = readLegacyBlueprints();
+      const db = await openDatabase();
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction([BLUEPRINT_STORE, SESSION_STORE], 'readwrite');
+        legacy.forEach((bp) => tx.objectStore(BLUEPRINT_STORE).put(bp));
+        tx.objectStore(SESSION_STORE).put(true, LEGACY_MIGRATED_KEY);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    }
+    return await runRequest<StoredBlueprint[]>(BLUEPRINT_STORE, 'readonly', (s) => s.getAll());
+  } catch (e) {
+    console.error('Failed to open blueprint database, falling back to legacy storage', e);
+    return readLegacyBlueprints();
+  }
+};
+
+/**
+ * Insert or replace a blueprint slot. Returns false if the write failed.
+ */
+export const putBlueprint = async (blueprint: StoredBlueprint): Promise<boolean> => {
+  try {
+    await runRequest(BLUEPRINT_STORE, 'readwrite', (s) => s.put(blueprint));
+    return true;
+  } catch (e) {
+    console.error('Failed to save blueprint', e);
+    return false;
+  }
+};
+
+/**
+ * Delete a blueprint slot. Returns false if the write failed.
+ */
+export const removeBlueprint = async (id: string): Promise<boolean> => {
+  try {
+    await runRequest(BLUEPRINT_STORE, 'readwrite', (s) => s.delete(id));
+    return true;
+  } catch (e) {
+    console.error('Failed to delete blueprint', e);
+    return false;
+  }
+};
+
+// =============================================================================
+// Autosave
+// =============================================================================
+
+export const loadAutosave = async (): Promise<AutosaveRecord | null> => {
+  try {
+    const record = await runRequest<AutosaveRecord | undefined>(SESSION_STORE, 'readonly', (s) => s.get(AUTOSAVE_KEY));
+    return record ?? null;
+  } catch (e) {
+    console.error('Failed to read autosave', e);
+    return null;
+  }
+};
+
+export const writeAutosave = async (record: AutosaveRecord): Promise<boolean> => {
+  try {
+    await runRequest(SESSION_STORE, 'readwrite', (s) => s.put(record, AUTOSAVE_KEY));
+    return true;
+  } catch (e) {
+    console.error('Failed to write autosave', e);
+    return false;
+  }
+};
@@ -0,0 +1,111 @@
+import { BuildingData, UNIT_SIZE } from '../types';
+import { getBuildingDef } from '../data/BuildingRegistry';
+
+const THUMBNAIL_SIZE = 96;
+const THUMBNAIL_PADDING = 6;
+
+const CATEGORY_COLORS: Record<string, string> = {
+  foundation: '#8B7355',
+  wall: '#D4A056',
+  roof: '#A0522D',
+  incline: '#C2B280',
+};
+
+type Point2D = [number, number];
+
+/**
+ * Rotate a local XZ point by a Y rotation (same handedness as THREE) and translate it.
+ */
+const toWorldXZ = (b: BuildingData, x: number, z: number): Point2D => {
+  const cos = Math.cos(b.rotation[1]);
+  const sin = Math.sin(b.rotation[1]);
+  return [b.position[0] + x * cos + z * sin, b.position[2] - x * sin + z * cos];
+};
+
+/**
+ * Top-down outline of a piece in world XZ.
+ * Foundations use their edge loop, walls a line along local X, others a point.
+ */
+const getFootprint = (b: BuildingData): Point2D[] => {
+  const def = getBuildingDef(b.type);
+  if (def.category === 'foundation' && def.edges.length >= 2) {
+    const points = def.edges.map((e) => toWorldXZ(b, e.start[0], e.start[2]));
+    const last = def.edges[def.edges.length - 1].end;
+    points.push(toWorldXZ(b, last[0], last[2]));
+    return points;
+  }
+  if (def.category === 'wall') {
+    return [toWorldXZ(b, -UNIT_SIZE / 2, 0), toWorldXZ(b, UNIT_SIZE / 2, 0)];
+  }
+  return [[b.position[0], b.position[2]]];
+};
+
+/**
+ * Render a small top-down thumbnail of a layout as a PNG data URL.
+ * Draws from the registry footprints rather than the WebGL canvas, so it works
+ * for any blueprint (including ones not currently on screen).
+ * Returns undefined for empty layouts or when no 2D canvas is available.
+ */
+export const renderBlueprintThumbnail = (buildings: BuildingData[]): string | undefined => {
+  if (buildings.length === 0 || typeof document === 'undefined') return undefined;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  // Lowest pieces first so walls and roofs draw over their foundations
+  const sorted = [...buildings].sort((a, b) => a.position[1] - b.position[1]);
+  const footprints = sorted.map((b) => ({ building: b, points: getFootprint(b) }));
+
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  footprints.forEach(({ points }) => points.forEach(([x, z]) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minZ = Math.min(minZ, z);
+    maxZ = Math.max(maxZ, z);
+  }));
+
+  const extent = Math.max(maxX - minX, maxZ - minZ, UNIT_SIZE);
+  const scale = (THUMBNAIL_SIZE - THUMBNAIL_PADDING * 2) / extent;
+  const centerX = (minX + maxX) / 2;
+  const centerZ = (minZ + maxZ) / 2;
+  const project = ([x, z]: Point2D): Point2D => [
+    THUMBNAIL_SIZE / 2 + (x - centerX) * scale,
+    THUMBNAIL_SIZE / 2 + (z - centerZ) * scale,
+  ];
+
+  ctx.fillStyle = '#1a1410';
+  ctx.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+
+  for (const { building, points } of footprints) {
+    const color = CATEGORY_COLORS[getBuildingDef(building.type).category] ?? '#ffffff';
+    const projected = points.map(project);
+
+    if (projected.length > 2) {
+      ctx.beginPath();
+      projected.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.closePath();
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    } else if (projected.length === 2) {
+      ctx.beginPath();
+      ctx.moveTo(...projected[0]);
+      ctx.lineTo(...projected[1]);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    } else {
+      ctx.beginPath();
+      ctx.arc(projected[0][0], projected[0][1], 2, 0, Math.PI * 2);
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+  }
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,140 @@
+import { BuildingData, BuildingType } from '../types';
+import { getBuildingDef, formatBuildingType } from '../data/BuildingRegistry';
+import { BuildRules, BuildZone, UNLIMITED_BUILD_RULES } from '../data/buildRules';
+import type { PlacementIssue } from './geometry';
+
+// =============================================================================
+// Build Rule Checks
+// =============================================================================
+//
+// A piece is inside the claim when every corner of its collider footprint is.
+// Limits count the existing layout plus the pieces being placed, so a paste
+// that would overshoot a cap is rejected as a whole.
+
+const BUILD_RULES_STORAGE_KEY = 'dune-build-rules';
+
+export interface BudgetLine {
+  type: BuildingType | null;  // null for the total cap
+  label: string;
+  used: number;
+  limit: number;
+}
+
+/**
+ * World XZ center of a radius zone: the totem piece if it still exists, else the zone's center.
+ */
+export const getZoneCenter = (zone: BuildZone, buildings: BuildingData[]): [number, number] => {
+  const totem = zone.totemId ? buildings.find((b) => b.id === zone.totemId) : undefined;
+  return totem ? [totem.position[0], totem.position[2]] : zone.center;
+};
+
+/**
+ * Even-odd point in polygon test on world XZ.
+ */
+const pointInPolygon = (x: number, z: number, polygon: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, zi] = polygon[i];
+    const [xj, zj] = polygon[j];
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Whether a world XZ point is inside the zone. `center` comes from getZoneCenter.
+ */
+export const isPointInZone = (zone: BuildZone, center: [number, number], x: number, z: number): boolean => {
+  if (zone.kind === 'radius') return Math.hypot(x - center[0], z - center[1]) <= zone.radius;
+  return pointInPolygon(x, z, zone.polygon);
+};
+
+const footprintCorners = (piece: BuildingData): [number, number][] => {
+  const [x, , z] = piece.position;
+  const cos = Math.cos(piece.rotation[1]);
+  const sin = Math.sin(piece.rotation[1]);
+  return getBuildingDef(piece.type).collider.polygons.flatMap((polygon) =>
+    polygon.map(([px, pz]) => [x + px * cos + pz * sin, z - px * sin + pz * cos] as [number, number])
+  );
+};
+
+/**
+ * Remaining budget per capped type (in registry order) and for the total cap.
+ */
+export const computeBuildBudget = (buildings: BuildingData[], rules: BuildRules): BudgetLine[] => {
+  const counts = new Map<BuildingType, number>();
+  buildings.forEach((b) => counts.set(b.type, (counts.get(b.type) ?? 0) + 1));
+
+  const lines: BudgetLine[] = Object.values(BuildingType)
+    .filter((type) => rules.limits.perType[type] !== undefined)
+    .map((type) => ({
+      type,
+      label: formatBuildingType(type),
+      used: counts.get(type) ?? 0,
+      limit: rules.limits.perType[type]!,
+    }));
+  if (rules.limits.total !== null) {
+    lines.push({ type: null, label: 'All pieces', used: buildings.length, limit: rules.limits.total });
+  }
+  return lines;
+};
+
+/**
+ * Why `pieces` can't be added to `buildings` under the build rules (empty when they can).
+ */
+export const findBuildRuleIssues = (
+  pieces: BuildingData[],
+  buildings: BuildingData[],
+  rules: BuildRules | null | undefined
+): PlacementIssue[] => {
+  if (!rules) return [];
+  const issues: PlacementIssue[] = [];
+
+  if (rules.zone) {
+    const center = getZoneCenter(rules.zone, buildings);
+    const outside = pieces.some((piece) =>
+      footprintCorners(piece).some(([x, z]) => !isPointInZone(rules.zone!, center, x, z))
+    );
+    if (outside) issues.push({ kind: 'outside-zone', message: 'Outside the claim area' });
+  }
+
+  // Caps on other types don't block these pieces, even if the layout is already over them
+  const placedTypes = new Set(pieces.map((p) => p.type));
+  computeBuildBudget([...buildings, ...pieces], rules)
+    .filter((line) => line.used > line.limit && (line.type === null || placedTypes.has(line.type)))
+    .forEach((line) => {
+      const what = line.type ? `${line.label} limit` : 'Piece limit';
+      issues.push({ kind: 'piece-limit', message: `${what} reached (${line.limit})` });
+    });
+
+  return issues;
+};
+
+/**
+ * Load the build rules from browser storage (unlimited if none are stored or they're unreadable).
+ */
+export const loadBuildRules = (): BuildRules => {
+  if (typeof localStorage === 'undefined') return UNLIMITED_BUILD_RULES;
+  try {
+    const saved = localStorage.getItem(BUILD_RULES_STORAGE_KEY);
+    if (!saved) return UNLIMITED_BUILD_RULES;
+    const parsed = JSON.parse(saved);
+    return parsed && parsed.limits && typeof parsed.limits === 'object' ? parsed : UNLIMITED_BUILD_RULES;
+  } catch (e) {
+    console.error('Failed to load build rules', e);
+    return UNLIMITED_BUILD_RULES;
+  }
+};
+
+/**
+ * Persist the build rules to browser storage. Returns false if the write failed.
+ */
+export const saveBuildRules = (rules: BuildRules): boolean => {
+  try {
+    localStorage.setItem(BUILD_RULES_STORAGE_KEY, JSON.stringify(rules));
+    return true;
+  } catch (e) {
+    console.error('Failed to save build rules', e);
+    return false;
+  }
+};
@@ -6,6 +6,7 @@ import {
   TRIANGLE_RADIUS,
   WALL_HEIGHT,
   HALF_WALL_HEIGHT,
+  ROOF_HEIGHT,
 } from '../types';
 
 // Door dimensions
@@ -27,7 +28,6 @@ const RAIL_WIDTH = 0.2;
 const RAIL_HEIGHT = 0.5;
 
 // Roof dimensions
-const ROOF_HEIGHT = 3;
 const ROOF_THICKNESS = 0.2;
 
 export interface GeometryConfig {
@@ -160,6 +160,5 @@ export {
   RAMP_THICKNESS,
   RAIL_WIDTH,
   RAIL_HEIGHT,
-  ROOF_HEIGHT,
   ROOF_THICKNESS,
 };
@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import { BuildingData, BuildingType } from '../types';
+import { getBuildingDef } from '../data/BuildingRegistry';
+import { findCollidingBuildings } from './collision';
+
+/**
+ * A piece of a placement group, stored relative to the group's anchor.
+ * Offsets are expressed in the anchor's local frame (anchor rotation removed),
+ * so the whole group can be re-placed at any anchor position/rotation.
+ */
+export interface GroupPiece {
+  type: BuildingType;
+  offset: [number, number, number];
+  rotationY: number; // Relative to the anchor's rotation
+}
+
+/**
+ * A group of pieces that is placed as one unit (clipboard paste, prefab, merge import).
+ * pieces[0] is always the anchor (zero offset, zero relative rotation).
+ */
+export interface PlacementGroup {
+  name?: string;  // Set for prefabs and imported blueprints
+  label?: string; // History label when committed (defaults to paste / prefab wording)
+  placeOnce?: boolean; // Leave placement after the first commit (merge import)
+  anchorType: BuildingType;
+  anchorRotation: number; // Rotation of the anchor when the group was captured
+  pieces: GroupPiece[];
+}
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Choose the anchor piece: the lowest foundation-category piece, falling back
+ * to the lowest piece of any kind. Foundations make the best anchors since
+ * they edge-snap to existing foundations.
+ */
+const pickAnchor = (buildings: BuildingData[]): BuildingData => {
+  const byHeight = [...buildings].sort((a, b) => a.position[1] - b.position[1]);
+  return byHeight.find((b) => getBuildingDef(b.type).category === 'foundation') ?? byHeight[0];
+};
+
+/**
+ * Capture buildings as a placement group, preserving relative transforms.
+ * Returns null for an empty list.
+ */
+export const createPlacementGroup = (buildings: BuildingData[], name?: string): PlacementGroup | null => {
+  if (buildings.length === 0) return null;
+
+  const anchor = pickAnchor(buildings);
+  const anchorPos = new THREE.Vector3(...anchor.position);
+  const anchorRotY = anchor.rotation[1];
+
+  const toPiece = (b: BuildingData): GroupPiece => {
+    const offset = new THREE.Vector3(...b.position).sub(anchorPos).applyAxisAngle(Y_AXIS, -anchorRotY);
+    return {
+      type: b.type,
+      offset: [offset.x, offset.y, offset.z],
+      rotationY: b.rotation[1] - anchorRotY,
+    };
+  };
+
+  return {
+    name,
+    anchorType: anchor.type,
+    anchorRotation: anchorRotY,
+    pieces: [toPiece(anchor), ...buildings.filter((b) => b !== anchor).map(toPiece)],
+  };
+};
+
+/**
+ * Lay out a placement group with its anchor at the given world transform.
+ * Each call generates fresh ids so the result can be added to the store directly.
+ */
+export const instantiatePlacementGroup = (
+  group: PlacementGroup,
+  anchorPosition: [number, number, number],
+  anchorRotationY: number
+): BuildingData[] => {
+  const anchorPos = new THREE.Vector3(...anchorPosition);
+  return group.pieces.map((piece) => {
+    const worldPos = new THREE.Vector3(...piece.offset).applyAxisAngle(Y_AXIS, anchorRotationY).add(anchorPos);
+    return {
+      id: crypto.randomUUID(),
+      type: piece.type,
+      position: [worldPos.x, worldPos.y, worldPos.z],
+      rotation: [0, anchorRotationY + piece.rotationY, 0],
+    };
+  });
+};
+
+/**
+ * Find existing buildings that the given pieces would overlap.
+ * Uses the same collider test as calculateSnap's validation.
+ */
+export const findOverlappingBuildings = (pieces: BuildingData[], buildings: BuildingData[]): string[] => {
+  const overlapping = new Set<string>();
+  for (const piece of pieces) {
+    findCollidingBuildings(piece, buildings).forEach((id) => overlapping.add(id));
+  }
+  return [...overlapping];
+};
@@ -0,0 +1,142 @@
+import { BuildingData, BuildingType } from '../types';
+import { getBuildingDef, BuildingRegistry } from '../data/BuildingRegistry';
+
+// =============================================================================
+// Piece Collision
+// =============================================================================
+//
+// Pieces collide when their registry colliders (convex footprints extruded
+// upward) overlap by more than TOUCH_TOLERANCE both vertically and in plan,
+// using the separating axis test on the footprints. Faces that merely touch,
+// like neighbouring foundations or a wall standing on a foundation, pass.
+
+/** Overlap depth below which two volumes count as touching, not colliding */
+const TOUCH_TOLERANCE = 0.05;
+
+interface WorldCollider {
+  polygons: [number, number][][];  // World XZ
+  minY: number;
+  maxY: number;
+  center: [number, number];
+  radius: number;                  // Bounding circle around `center`, for the broad phase
+}
+
+// Buildings are immutable, so colliders are cached per object
+const colliderCache = new WeakMap<BuildingData, WorldCollider>();
+
+const toWorldCollider = (building: BuildingData): WorldCollider => {
+  const { polygons, height } = getBuildingDef(building.type).collider;
+  const [x, y, z] = building.position;
+  const cos = Math.cos(building.rotation[1]);
+  const sin = Math.sin(building.rotation[1]);
+
+  let radius = 0;
+  const worldPolygons = polygons.map((polygon) =>
+    polygon.map(([px, pz]) => {
+      radius = Math.max(radius, Math.hypot(px, pz));
+      // Same rotation as THREE's Y-axis Euler rotation
+      return [x + px * cos + pz * sin, z - px * sin + pz * cos] as [number, number];
+    })
+  );
+
+  return { polygons: worldPolygons, minY: y, maxY: y + height, center: [x, z], radius };
+};
+
+const getWorldCollider = (building: BuildingData): WorldCollider => {
+  let collider = colliderCache.get(building);
+  if (!collider) {
+    collider = toWorldCollider(building);
+    colliderCache.set(building, collider);
+  }
+  return collider;
+};
+
+const project = (polygon: [number, number][], ax: number, az: number): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const [x, z] of polygon) {
+    const d = x * ax + z * az;
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return [min, max];
+};
+
+/**
+ * Separating axis test for two convex polygons. True if they overlap
+ * deeper than TOUCH_TOLERANCE along every edge normal of either polygon.
+ */
+const polygonsOverlap = (a: [number, number][], b: [number, number][]): boolean => {
+  for (const polygon of [a, b]) {
+    for (let i = 0; i < polygon.length; i++) {
+      const [x1, z1] = polygon[i];
+      const [x2, z2] = polygon[(i + 1) % polygon.length];
+      const length = Math.hypot(x2 - x1, z2 - z1);
+      if (length === 0) continue;
+      const ax = -(z2 - z1) / length;
+      const az = (x2 - x1) / length;
+
+      const [minA, maxA] = project(a, ax, az);
+      const [minB, maxB] = project(b, ax, az);
+      if (Math.min(maxA, maxB) - Math.max(minA, minB) <= TOUCH_TOLERANCE) return false;
+    }
+  }
+  return true;
+};
+
+const collidersOverlap = (a: WorldCollider, b: WorldCollider): boolean => {
+  if (Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY) <= TOUCH_TOLERANCE) return false;
+  const distance = Math.hypot(a.center[0] - b.center[0], a.center[1] - b.center[1]);
+  if (distance >= a.radius + b.radius) return false;
+  return a.polygons.some((pa) => b.polygons.some((pb) => polygonsOverlap(pa, pb)));
+};
+
+/**
+ * Distance from a piece's position to the farthest point of its footprint.
+ */
+export const getColliderRadius = (type: BuildingType): number =>
+  Math.max(0, ...getBuildingDef(type).collider.polygons.flat().map(([x, z]) => Math.hypot(x, z)));
+
+let maxColliderRadius: number | null = null;
+
+/**
+ * Largest collider radius of any piece type. Pieces farther apart in plan
+ * than the ghost's radius plus this can't collide with it (broad phase).
+ */
+export const getMaxColliderRadius = (): number => {
+  if (maxColliderRadius === null) {
+    maxColliderRadius = Math.max(...(Object.keys(BuildingRegistry) as BuildingType[]).map(getColliderRadius));
+  }
+  return maxColliderRadius;
+};
+
+/**
+ * World XZ bounds of a piece's footprint.
+ */
+export const getFootprintBounds = (building: BuildingData): { minX: number; maxX: number; minZ: number; maxZ: number } => {
+  const points = getWorldCollider(building).polygons.flat();
+  return {
+    minX: Math.min(...points.map(([x]) => x)),
+    maxX: Math.max(...points.map(([x]) => x)),
+    minZ: Math.min(...points.map(([, z]) => z)),
+    maxZ: Math.max(...points.map(([, z]) => z)),
+  };
+};
+
+/**
+ * Whether two pieces occupy the same space.
+ */
+export const piecesCollide = (a: BuildingData, b: BuildingData): boolean => {
+  return collidersOverlap(getWorldCollider(a), getWorldCollider(b));
+};
+
+/**
+ * Ids of the buildings `piece` would overlap, ignoring any with the piece's own id.
+ * `buildings` may be a broad-phase subset (see getMaxColliderRadius).
+ */
+export const findCollidingBuildings = (piece: BuildingData, buildings: BuildingData[]): string[] => {
+  const collider = getWorldCollider(piece);
+  return buildings
+    .filter((b) => b.id !== piece.id && collidersOverlap(collider, getWorldCollider(b)))
+    .map((b) => b.id);
+};
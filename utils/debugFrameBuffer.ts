@@ -0,0 +1,190 @@
+import { BuildingData } from '../types';
+import { DebugBuildingAction, DebugFrame, DebugFrameKind, DebugInitialState, DebugRecorderSettings } from '../types/debug';
+import { applyBuildingAction } from './debugPlayback';
+
+// =============================================================================
+// Debug Recorder Frame Buffer
+// =============================================================================
+//
+// Holds the frames of a recording within the recorder settings. Snap frames
+// arrive on every frame the cursor moves, so the buffer can keep only the
+// last N seconds, skip snap frames that repeat the previous result, and drop
+// snap or key frames. Layout actions are never dropped: they are the only
+// record of the layout. Frames leaving the window have their place/remove
+// actions folded into the initial state, so the kept frames still replay
+// from the right layout. The recorder turns every change to the layout
+// (placing, undo, moving a selection, loading...) into actions with
+// diffLayout, so the actions always rebuild the layout the snaps saw.
+
+const RECORDER_SETTINGS_STORAGE_KEY = 'dune-debug-recorder-settings';
+
+/** Window choices offered in the recorder panel (null keeps everything) */
+export const RECORDER_WINDOW_OPTIONS: (number | null)[] = [15, 30, 60, 300, null];
+
+export const DEFAULT_RECORDER_SETTINGS: DebugRecorderSettings = {
+  windowSeconds: 60,
+  changesOnly: true,
+  kinds: { snap: true, key: true },
+};
+
+export interface DebugFrameBuffer {
+  /** Add a frame; returns false if the settings filtered it out */
+  add: (frame: DebugFrame) => boolean;
+  /** Kept frames, oldest first */
+  frames: () => DebugFrame[];
+  /** Layout before the first kept frame */
+  initialState: () => DebugInitialState | undefined;
+  /** Number of kept frames */
+  size: () => number;
+}
+
+/**
+ * Which filter a frame falls under. Placements and removals also carry a
+ * cursor, so actions win over the other kinds.
+ */
+export const getFrameKind = (frame: DebugFrame): DebugFrameKind => {
+  if (frame.buildingAction) return 'action';
+  if (frame.keyPress) return 'key';
+  return 'snap';
+};
+
+// Everything the snap result depends on that's worth a new frame when it changes
+const snapResultKey = (frame: DebugFrame): string => {
+  const snap = frame.snapCalculation!;
+  return JSON.stringify([
+    frame.activeType,
+    frame.rotation,
+    snap.finalPosition,
+    snap.finalRotation,
+    snap.isValid,
+    snap.snappedToSocket,
+    snap.issues?.map((issue) => issue.kind),
+  ]);
+};
+
+const applyAction = (state: DebugInitialState, frame: DebugFrame): DebugInitialState => ({
+  ...state,
+  buildings: applyBuildingAction(state.buildings, frame.buildingAction!),
+});
+
+const samePiece = (a: BuildingData, b: BuildingData) =>
+  a.type === b.type && a.position.every((v, i) => v === b.position[i]) && a.rotation.every((v, i) => v === b.rotation[i]);
+
+const toPlaceAction = (building: BuildingData, index: number): DebugBuildingAction => ({
+  action: 'place',
+  buildingId: building.id,
+  buildingType: building.type,
+  position: building.position,
+  rotation: building.rotation,
+  index,
+});
+
+/**
+ * Actions that turn layout `prev` into `next`: removals, then a place for
+ * every new or changed piece at its index in `next`. If they wouldn't
+ * reproduce `next` in the same order, everything is removed and placed again.
+ */
+export const diffLayout = (prev: BuildingData[], next: BuildingData[]): DebugBuildingAction[] => {
+  const nextById = new Map(next.map((b) => [b.id, b]));
+  const prevById = new Map(prev.map((b) => [b.id, b]));
+  const toRemoveAction = (building: BuildingData): DebugBuildingAction => ({
+    action: 'remove',
+    buildingId: building.id,
+    buildingType: building.type,
+    position: building.position,
+    rotation: building.rotation,
+  });
+
+  const actions = [
+    ...prev.filter((b) => !nextById.has(b.id)).map(toRemoveAction),
+    ...next.flatMap((b, index) => {
+      const before = prevById.get(b.id);
+      return before && (before === b || samePiece(before, b)) ? [] : [toPlaceAction(b, index)];
+    }),
+  ];
+
+  const rebuilt = actions.reduce(applyBuildingAction, prev);
+  if (rebuilt.length === next.length && rebuilt.every((b, i) => b.id === next[i].id)) return actions;
+  return [...prev.map(toRemoveAction), ...next.map(toPlaceAction)];
+};
+
+/**
+ * Create an empty frame buffer for one recording.
+ */
+export const createDebugFrameBuffer = (
+  settings: DebugRecorderSettings,
+  initialState?: DebugInitialState
+): DebugFrameBuffer => {
+  let buffer: DebugFrame[] = [];
+  let head = 0;  // Index of the oldest kept frame; evicted frames are compacted away in batches
+  let state = initialState;
+  let lastSnapKey: string | null = null;
+
+  const evictBefore = (time: number) => {
+    while (head < buffer.length && buffer[head].timestamp < time) {
+      if (state && buffer[head].buildingAction) state = applyAction(state, buffer[head]);
+      head++;
+    }
+    if (head > buffer.length / 2) {
+      buffer = buffer.slice(head);
+      head = 0;
+    }
+  };
+
+  const add = (frame: DebugFrame) => {
+    const kind = getFrameKind(frame);
+    if (kind !== 'action' && !settings.kinds[kind]) return false;
+
+    if (kind === 'snap' && frame.snapCalculation && settings.changesOnly) {
+      const key = snapResultKey(frame);
+      if (key === lastSnapKey) return false;
+      lastSnapKey = key;
+    } else if (kind !== 'snap') {
+      // The layout or rotation may have changed, so the next snap is always kept
+      lastSnapKey = null;
+    }
+
+    buffer.push(frame);
+    if (settings.windowSeconds !== null) evictBefore(frame.timestamp - settings.windowSeconds * 1000);
+    return true;
+  };
+
+  return {
+    add,
+    frames: () => buffer.slice(head),
+    initialState: () => state,
+    size: () => buffer.length - head,
+  };
+};
+
+/**
+ * Load the recorder settings from browser storage (defaults if none are stored or they're unreadable).
+ */
+export const loadRecorderSettings = (): DebugRecorderSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_RECORDER_SETTINGS;
+  try {
+    const saved = localStorage.getItem(RECORDER_SETTINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_RECORDER_SETTINGS;
+    const parsed = JSON.parse(saved);
+    if (!parsed || !parsed.kinds || typeof parsed.kinds !== 'object') return DEFAULT_RECORDER_SETTINGS;
+    // Only the filterable kinds; settings from before actions were always kept also hold `action`
+    const kinds = { snap: parsed.kinds.snap !== false, key: parsed.kinds.key !== false };
+    return { ...DEFAULT_RECORDER_SETTINGS, ...parsed, kinds };
+  } catch (e) {
+    console.error('Failed to load recorder settings', e);
+    return DEFAULT_RECORDER_SETTINGS;
+  }
+};
+
+/**
+ * Persist the recorder settings to browser storage. Returns false if the write failed.
+ */
+export const saveRecorderSettings = (settings: DebugRecorderSettings): boolean => {
+  try {
+    localStorage.setItem(RECORDER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    return true;
+  } catch (e) {
+    console.error('Failed to save recorder settings', e);
+    return false;
+  }
+};
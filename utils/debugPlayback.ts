@@ -0,0 +1,242 @@
+import { BuildingData, BuildingType } from '../types';
+import { DebugBuildingAction, DebugFrame, DebugRecording, DebugSnapCalculation } from '../types/debug';
+import { validateBuildings } from './blueprintSchema';
+
+// =============================================================================
+// Debug Recording Playback
+// =============================================================================
+//
+// Replays a downloaded debug recording. The layout at a frame is rebuilt from
+// the place/remove actions recorded up to it; the ghost shows the latest snap
+// calculation at or before the frame, so key presses and placements don't
+// blank it. Version 1 recordings have no initial state, so pieces that
+// existed before recording started are not shown for them. Before version 4
+// only mouse placements and removals were recorded, so undo, selection edits,
+// pastes and loads are missing from those.
+
+/**
+ * Version 2 added the initial state, version 3 the unified snap candidate
+ * schema, version 4 every layout change with the index each piece lands at.
+ */
+export const DEBUG_RECORDING_VERSION = 4;
+
+export interface DebugRecordingParseResult {
+  recording: DebugRecording | null;
+  errors: string[];
+}
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+const BUILDING_TYPES = new Set<string>(Object.values(BuildingType));
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Problems with one recorded snap calculation. Every field the recording's
+ * version writes must be there, so a hand-edited or truncated file can't
+ * replay as a match without comparing anything.
+ */
+const validateSnapCalculation = (snap: unknown, version: number, path: string): string[] => {
+  if (!snap || typeof snap !== 'object') return [`${path}: expected an object`];
+  const errors: string[] = [];
+  const { rayPoint, finalPosition, finalRotation, compatibleSocketsFound, candidates, selectedCandidate, pinned, isValid, snappedToSocket } =
+    snap as Record<keyof DebugSnapCalculation, unknown>;
+
+  if (!isVector3(rayPoint) || !isVector3(finalPosition) || !isVector3(finalRotation)) {
+    errors.push(`${path}: expected rayPoint, finalPosition and finalRotation as [x, y, z]`);
+  }
+  if (!isCount(compatibleSocketsFound)) {
+    errors.push(`${path}.compatibleSocketsFound: expected a non-negative integer`);
+  }
+  if (!Array.isArray(candidates)) {
+    errors.push(`${path}.candidates: expected an array`);
+  } else if (selectedCandidate !== null && !(isCount(selectedCandidate) && selectedCandidate < candidates.length)) {
+    errors.push(`${path}.selectedCandidate: expected null or an index into candidates`);
+  } else if (version >= 3) {
+    candidates.forEach((candidate, i) => {
+      const { kind, targetEdge, targetNormal } = (candidate ?? {}) as { kind?: unknown; targetEdge?: unknown; targetNormal?: unknown };
+      if (kind === 'edge') {
+        if (!Array.isArray(targetEdge) || targetEdge.length !== 2 || !targetEdge.every(isVector3)) {
+          errors.push(`${path}.candidates[${i}].targetEdge: expected [start, end] for an edge candidate`);
+        }
+      } else if (kind === 'socket') {
+        if (!isVector3(targetNormal)) {
+          errors.push(`${path}.candidates[${i}].targetNormal: expected [x, y, z] for a socket candidate`);
+        }
+      } else {
+        errors.push(`${path}.candidates[${i}].kind: expected "edge" or "socket"`);
+      }
+    });
+  }
+  if (typeof isValid !== 'boolean' || typeof snappedToSocket !== 'boolean') {
+    errors.push(`${path}: expected isValid and snappedToSocket as booleans`);
+  }
+  // Tab cycling, and with it pinning, arrived with the version 3 candidate schema
+  if (version >= 3 && typeof pinned !== 'boolean') {
+    errors.push(`${path}.pinned: expected a boolean`);
+  }
+  return errors;
+};
+
+/**
+ * Validate a debug recording file: the fields playback relies on, and every
+ * field of each snap calculation so replays compare what was recorded.
+ */
+export const parseDebugRecording = (data: unknown): DebugRecordingParseResult => {
+  const frames = (data as { frames?: unknown } | null)?.frames;
+  if (!Array.isArray(frames)) {
+    return { recording: null, errors: ['frames: expected an array'] };
+  }
+  if (frames.length === 0) {
+    return { recording: null, errors: ['frames: the recording is empty'] };
+  }
+
+  const { version } = data as { version?: unknown };
+  if (!isCount(version) || version < 1) {
+    return { recording: null, errors: ['version: expected a positive integer'] };
+  }
+  if (version > DEBUG_RECORDING_VERSION) {
+    return { recording: null, errors: [`version: recording version ${version} is newer than this planner supports (v${DEBUG_RECORDING_VERSION})`] };
+  }
+
+  const errors: string[] = [];
+  frames.forEach((frame, i) => {
+    if (typeof frame?.timestamp !== 'number') {
+      errors.push(`frames[${i}].timestamp: expected a number`);
+    }
+    if (!BUILDING_TYPES.has(frame?.activeType)) {
+      errors.push(`frames[${i}].activeType: unknown building type ${String(frame?.activeType)}`);
+    }
+    const action = frame?.buildingAction;
+    if (action) {
+      if (action.action !== 'place' && action.action !== 'remove') {
+        errors.push(`frames[${i}].buildingAction.action: expected "place" or "remove"`);
+      }
+      if (!BUILDING_TYPES.has(action.buildingType)) {
+        errors.push(`frames[${i}].buildingAction.buildingType: unknown building type ${String(action.buildingType)}`);
+      }
+      if (!isVector3(action.position) || !isVector3(action.rotation)) {
+        errors.push(`frames[${i}].buildingAction: expected position and rotation as [x, y, z]`);
+      }
+      if (action.index !== undefined && !(Number.isInteger(action.index) && action.index >= 0)) {
+        errors.push(`frames[${i}].buildingAction.index: expected a non-negative integer`);
+      }
+    }
+    if (frame?.snapCalculation !== undefined) {
+      errors.push(...validateSnapCalculation(frame.snapCalculation, version, `frames[${i}].snapCalculation`));
+    }
+  });
+
+  const initialState = (data as { initialState?: { buildings?: unknown } }).initialState;
+  if (initialState) {
+    errors.push(...validateBuildings(initialState.buildings, 'initialState.buildings'));
+  }
+  if (errors.length > 0) return { recording: null, errors };
+
+  const recording = data as DebugRecording;
+  // Frames are appended in time order, but sort in case a file was edited by hand
+  const sorted = [...recording.frames].sort((a, b) => a.timestamp - b.timestamp);
+  return {
+    recording: {
+      ...recording,
+      startTime: typeof recording.startTime === 'number' ? recording.startTime : sorted[0].timestamp,
+      frames: sorted,
+    },
+    errors,
+  };
+};
+
+/**
+ * Milliseconds from the first frame to frame `index`.
+ */
+export const getFrameTime = (recording: DebugRecording, index: number): number =>
+  recording.frames[index].timestamp - recording.frames[0].timestamp;
+
+/**
+ * Milliseconds from the first frame to the last.
+ */
+export const getRecordingDuration = (recording: DebugRecording): number =>
+  getFrameTime(recording, recording.frames.length - 1);
+
+/**
+ * Index of the last frame at or before `time` (milliseconds from the first frame).
+ */
+export const findFrameAtTime = (recording: DebugRecording, time: number): number => {
+  const { frames } = recording;
+  const target = frames[0].timestamp + time;
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (frames[mid].timestamp <= target) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+/**
+ * Layout a recording started from (empty for recordings without an initial state).
+ */
+export const getInitialBuildings = (recording: DebugRecording): BuildingData[] =>
+  recording.initialState?.buildings ?? [];
+
+/**
+ * Layout after one recorded action. A place replaces any piece with the same
+ * id and lands at its recorded index (appended for recordings before version 4);
+ * removals of unknown pieces (placed before a version 1 recording started) are ignored.
+ */
+export const applyBuildingAction = (buildings: BuildingData[], action: DebugBuildingAction): BuildingData[] => {
+  const next = buildings.filter((b) => b.id !== action.buildingId);
+  if (action.action === 'place') {
+    const piece: BuildingData = {
+      id: action.buildingId,
+      type: action.buildingType,
+      position: action.position,
+      rotation: action.rotation,
+    };
+    next.splice(Math.min(action.index ?? next.length, next.length), 0, piece);
+  }
+  return next;
+};
+
+/**
+ * Pieces standing after the actions in frames 0..index, in layout order.
+ */
+export const getBuildingsAtFrame = (recording: DebugRecording, index: number): BuildingData[] => {
+  let buildings = getInitialBuildings(recording);
+  for (let i = 0; i <= index && i < recording.frames.length; i++) {
+    const action = recording.frames[i].buildingAction;
+    if (action) buildings = applyBuildingAction(buildings, action);
+  }
+  return buildings;
+};
+
+/**
+ * Latest frame at or before `index` with a snap calculation, or null before the first one.
+ */
+export const getSnapFrameAt = (recording: DebugRecording, index: number): DebugFrame | null => {
+  for (let i = Math.min(index, recording.frames.length - 1); i >= 0; i--) {
+    if (recording.frames[i].snapCalculation) return recording.frames[i];
+  }
+  return null;
+};
+
+/**
+ * Short description of what happened in a frame, for the playback panel.
+ */
+export const describeFrame = (frame: DebugFrame): string => {
+  if (frame.buildingAction) {
+    const verb = frame.buildingAction.action === 'place' ? 'Place' : 'Remove';
+    return `${verb} ${frame.buildingAction.buildingType}`;
+  }
+  if (frame.keyPress) return `Key ${frame.keyPress.key}: ${frame.keyPress.action}`;
+  if (frame.snapCalculation) {
+    const { candidates, snappedToSocket, isValid } = frame.snapCalculation;
+    const snap = snappedToSocket ? 'snapped' : 'grid';
+    // Rejected candidates are only in recordings since version 3
+    const scored = candidates.filter((c) => !c.rejection).length;
+    return `Snap (${snap}, ${scored} candidates)${isValid ? '' : ' - invalid'}`;
+  }
+  return 'Cursor';
+};
@@ -32,10 +32,45 @@ interface LocalEdgeSocket {
   edgeRole: EdgeRole;
 }
 
+export type PlacementIssueKind =
+  | 'overlap'
+  | 'socket-occupied'
+  | 'roof-not-snapped'
+  | 'out-of-bounds'
+  | 'outside-zone'
+  | 'piece-limit';
+
+/**
+ * Why a ghost placement was rejected. `message` is ready to show to the user.
+ */
+export interface PlacementIssue {
+  kind: PlacementIssueKind;
+  message: string;
+  buildingId?: string;  // Piece involved, for 'overlap' and 'socket-occupied'
+}
+
+/**
+ * Issue for a ghost overlapping an existing piece.
+ */
+export const createOverlapIssue = (building: BuildingData): PlacementIssue => ({
+  kind: 'overlap',
+  message: `Overlaps ${formatBuildingType(building.type)}`,
+  buildingId: building.id,
+});
+
+/**
+ * Site constraints for placement beyond the other pieces.
+ */
+export interface PlacementContext {
+  terrain?: Terrain | null;        // Grid placements rest on the ground
+  buildRules?: BuildRules | null;  // Claim area and piece limits
+}
+
 export interface PreferredSnapTarget {
   type: 'edge' | 'socket';
   socketType?: SocketType;
   position: THREE.Vector3;
+  candidateKey?: string;  // Pins one exact candidate (set when cycling with Tab)
 }
 
 /**
@@ -334,20 +369,37 @@ export const getLocalSockets = (type: BuildingType): LocalSocket[] => {
   return sockets;
 };
 
+// Local sockets only depend on the type; the world transforms below clone them, never mutate
+const localSocketCache = new Map<BuildingType, LocalSocket[]>();
+const localEdgeCache = new Map<BuildingType, LocalEdgeSocket[]>();
+
+const getCachedLocal = <T>(cache: Map<BuildingType, T[]>, type: BuildingType, compute: (type: BuildingType) => T[]): T[] => {
+  let local = cache.get(type);
+  if (!local) {
+    local = compute(type);
+    cache.set(type, local);
+  }
+  return local;
+};
+
+// Same quaternion applyEuler builds internally, made once per building instead of per point
+const getBuildingQuaternion = (building: BuildingData) =>
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(building.rotation[0], building.rotation[1], building.rotation[2]));
+
 /**
  * Transforms local sockets to world space.
  */
 export const getWorldSockets = (building: BuildingData): Socket[] => {
   if (!building) return [];
-  const local = getLocalSockets(building.type);
+  const local = getCachedLocal(localSocketCache, building.type, getLocalSockets);
   const worldSockets: Socket[] = [];
 
-  const rotEuler = new THREE.Euler(building.rotation[0], building.rotation[1], building.rotation[2]);
+  const rotation = getBuildingQuaternion(building);
   const pos = new THREE.Vector3(building.position[0], building.position[1], building.position[2]);
 
   local.forEach(s => {
-    const wPos = s.position.clone().applyEuler(rotEuler).add(pos);
-    const wNorm = s.normal.clone().applyEuler(rotEuler);
+    const wPos = s.position.clone().applyQuaternion(rotation).add(pos);
+    const wNorm = s.normal.clone().applyQuaternion(rotation);
     worldSockets.push({
       position: wPos,
       normal: wNorm,
@@ -608,16 +660,16 @@ export const getLocalEdgeSockets = (type: BuildingType): LocalEdgeSocket[] => {
  */
 export const getWorldEdgeSockets = (building: BuildingData): EdgeSocket[] => {
   if (!building) return [];
-  const localEdges = getLocalEdgeSockets(building.type);
+  const localEdges = getCachedLocal(localEdgeCache, building.type, getLocalEdgeSockets);
   const worldEdges: EdgeSocket[] = [];
 
-  const rotEuler = new THREE.Euler(building.rotation[0], building.rotation[1], building.rotation[2]);
+  const rotation = getBuildingQuaternion(building);
   const pos = new THREE.Vector3(building.position[0], building.position[1], building.position[2]);
 
   localEdges.forEach(edge => {
-    const wStart = edge.start.clone().applyEuler(rotEuler).add(pos);
-    const wCenter = edge.center.clone().applyEuler(rotEuler).add(pos);
-    const wEnd = edge.end.clone().applyEuler(rotEuler).add(pos);
+    const wStart = edge.start.clone().applyQuaternion(rotation).add(pos);
+    const wCenter = edge.center.clone().applyQuaternion(rotation).add(pos);
+    const wEnd = edge.end.clone().applyQuaternion(rotation).add(pos);
     worldEdges.push({
       start: wStart,
       center: wCenter,
@@ -632,7 +684,21 @@ export const getWorldEdgeSockets = (building: BuildingData): EdgeSocket[] => {
   return worldEdges;
 };
 
-import { getBuildingDef } from '../data/BuildingRegistry';
+import { getBuildingDef, formatBuildingType } from '../data/BuildingRegistry';
+import type { SnapRules, SnapAlignment } from '../data/BuildingRegistry';
+import { createSocketIndex } from './socketIndex';
+import { findCollidingBuildings, getColliderRadius, getMaxColliderRadius } from './collision';
+import { getFootprintGroundRange } from './terrain';
+import type { Terrain } from './terrain';
+import { findBuildRuleIssues } from './buildRules';
+import type { BuildRules } from '../data/buildRules';
+import type {
+  DebugEdgeSnapCandidate,
+  DebugSnapCalculation,
+  DebugSnapCandidate,
+  DebugSocketSnapCandidate,
+  SnapRejectionReason,
+} from '../types/debug';
 
 /**
  * Check if a building type uses edge sockets (foundations) vs point sockets (walls/roofs)
@@ -704,6 +770,250 @@ export const getCompatibleSocketTypes = (activeType: BuildingType): SocketType[]
   return getBuildingDef(activeType).compatibleWith;
 };
 
+// Shared by every calculateSnap call; synced against the buildings array passed in
+const snapIndex = createSocketIndex(getWorldSockets, getWorldEdgeSockets);
+
+// Edges whose centers are closer than this are treated as already joined
+const EDGE_OCCUPIED_DISTANCE = 0.5;
+
+// Placeholder id for the ghost in collision checks (never matches a real building)
+const GHOST_COLLISION_ID = '__ghost__';
+
+// Pieces must stay on the ground grid (1000 x 1000, centered on the origin)
+const BUILD_AREA_HALF_EXTENT = 500;
+
+// Max distance from the snap target for a colliding piece to count as holding that socket
+const SOCKET_HOLD_DISTANCE = 0.2;
+
+const isDiagonalNormal = (normal: THREE.Vector3) => {
+  const ax = Math.abs(normal.x);
+  const az = Math.abs(normal.z);
+  return ax > 0.5 && az > 0.5 && Math.abs(ax - az) < 0.2;
+};
+
+/**
+ * Whether the active type's target filters allow snapping to `socket` on `target`.
+ */
+const allowsSnapTarget = (rules: SnapRules, target: BuildingData | undefined, socket: Socket): boolean => {
+  if (!target) return true;
+  const category = getBuildingDef(target.type).category;
+  const filter = rules.targets.find((f) => (f.types ? f.types.includes(target.type) : f.category === category));
+  if (!filter) return true;
+  return filter.sockets.includes(socket.socketType) && (!filter.diagonalNormalsOnly || isDiagonalNormal(socket.normal));
+};
+
+/**
+ * Alignment for a ghost socket meeting `targetSocket` (first matching rule, else 'oppose').
+ */
+const findSnapAlignment = (
+  rules: SnapRules,
+  targetSocket: Socket,
+  ghostSocketType: SocketType,
+  target: BuildingData | undefined
+): SnapAlignment => {
+  const rule = rules.alignments.find((r) =>
+    r.targetSocket === targetSocket.socketType &&
+    (!r.ghostSocket || r.ghostSocket === ghostSocketType) &&
+    (!r.targetTypes || (!!target && r.targetTypes.includes(target.type)))
+  );
+  return rule ? rule.alignment : 'oppose';
+};
+
+/**
+ * Sum of the score biases that apply to a target socket at this cursor height.
+ */
+const snapScoreBias = (rules: SnapRules, socketType: SocketType, cursorY: number): number =>
+  rules.scoreBiases.reduce(
+    (sum, bias) => (cursorY > bias.minCursorY && bias.sockets.includes(socketType) ? sum + bias.bias : sum),
+    0
+  );
+
+/** Round `value` to the nearest `offset + k * UNIT_SIZE` */
+const roundToGrid = (value: number, offset = 0) => Math.round((value - offset) / UNIT_SIZE) * UNIT_SIZE + offset;
+
+// Two footprint vertices closer than this in world Z share a horizontal edge
+const LATTICE_EDGE_TOLERANCE = 0.01;
+
+/**
+ * Free placement position on the active type's grid lattice (see GridLattice).
+ * `rotationY` must already be snapped to the type's rotation increment.
+ */
+const snapToLattice = (point: THREE.Vector3, type: BuildingType, rotationY: number): THREE.Vector3 => {
+  const half = UNIT_SIZE / 2;
+  const lattice = getBuildingDef(type).snap.lattice;
+
+  if (lattice === 'edge') {
+    // Midpoint of the grid line the piece runs along
+    return Math.abs(Math.cos(rotationY)) > 0.5
+      ? new THREE.Vector3(roundToGrid(point.x, half), 0, roundToGrid(point.z))
+      : new THREE.Vector3(roundToGrid(point.x), 0, roundToGrid(point.z, half));
+  }
+
+  if (lattice === 'triangle') {
+    // Orientation from the footprint's world Z extremes (the collider is inset, so
+    // only which side is flat is read from it, not the distances)
+    const cos = Math.cos(rotationY);
+    const sin = Math.sin(rotationY);
+    const zs = getBuildingDef(type).collider.polygons[0].map(([px, pz]) => -px * sin + pz * cos);
+    const minZ = Math.min(...zs);
+    const maxZ = Math.max(...zs);
+    const rowZ = Math.floor(point.z / UNIT_SIZE) * UNIT_SIZE;
+
+    // Base on the grid line, apex up the row
+    if (zs.filter((z) => z - minZ < LATTICE_EDGE_TOLERANCE).length === 2) {
+      return new THREE.Vector3(roundToGrid(point.x, half), 0, rowZ + TRIANGLE_APOTHEM);
+    }
+    // Apex on the grid line, base across the top of the row
+    if (zs.filter((z) => maxZ - z < LATTICE_EDGE_TOLERANCE).length === 2) {
+      return new THREE.Vector3(roundToGrid(point.x), 0, rowZ + TRIANGLE_RADIUS);
+    }
+    // Rotations that don't fit the strips fall through to the square grid
+  }
+
+  return new THREE.Vector3(roundToGrid(point.x, half), 0, roundToGrid(point.z, half));
+};
+
+/** One way to attach the ghost, before a winner is picked */
+interface SnapOption {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  score: number;           // Lower wins, same as the candidate scoring
+  rankScore: number;       // Score without the preferred-target bonus, so ranks stay put while cycling
+  socketWorldY: number;
+  targetType: 'edge' | 'socket';
+  socketType: SocketType;
+  anchor: THREE.Vector3;   // Target edge center or socket position (cached by the index, don't mutate)
+  targetId: string;
+  ghostIndex: number;      // Ghost edge or socket used
+}
+
+// `|| 0` folds -0 into 0 so tiny negative rounding noise doesn't change the key
+const keyNumber = (value: number) => (Math.round(value * 100) / 100 || 0).toFixed(2);
+
+// Options are compared every frame, so keys are only built for the few that need one
+const snapCandidateKey = (option: SnapOption) =>
+  `${option.targetType}:${option.targetId}:${keyNumber(option.anchor.x)},${keyNumber(option.anchor.y)},${keyNumber(option.anchor.z)}:${option.ghostIndex}`;
+
+const toTuple = (v: THREE.Vector3 | THREE.Euler): [number, number, number] => [v.x, v.y, v.z];
+
+/** Score bonus for the sticky or cycled target, so the ghost doesn't flicker between near-equal options */
+const PREFERRED_TARGET_BONUS = 0.8;
+
+/**
+ * Debug candidate for a target edge, before it is placed and scored.
+ */
+const edgeDebugCandidate = (
+  targetEdge: EdgeSocket,
+  ghostEdge: LocalEdgeSocket | null,
+  rejection: SnapRejectionReason | null = null
+): DebugEdgeSnapCandidate => ({
+  kind: 'edge',
+  targetBuildingId: targetEdge.id,
+  targetSocketType: targetEdge.socketType,
+  targetPosition: toTuple(targetEdge.center),
+  targetEdge: [toTuple(targetEdge.start), toTuple(targetEdge.end)],
+  ghostSocketType: ghostEdge ? ghostEdge.socketType : null,
+  ghostPosition: ghostEdge ? toTuple(ghostEdge.center) : null,
+  ghostEdge: ghostEdge ? [toTuple(ghostEdge.start), toTuple(ghostEdge.end)] : null,
+  resultingPosition: null,
+  resultingRotation: null,
+  distanceToCursor: null,
+  rotationPenalty: 0,
+  scoreBias: 0,
+  preferredBonus: 0,
+  score: null,
+  rejection,
+});
+
+/**
+ * Debug candidate for a target point socket, before it is placed and scored.
+ */
+const socketDebugCandidate = (
+  targetSocket: Socket,
+  ghostSocket: LocalSocket | null,
+  rejection: SnapRejectionReason | null = null
+): DebugSocketSnapCandidate => ({
+  kind: 'socket',
+  targetBuildingId: targetSocket.id,
+  targetSocketType: targetSocket.socketType,
+  targetPosition: toTuple(targetSocket.position),
+  targetNormal: toTuple(targetSocket.normal),
+  ghostSocketType: ghostSocket ? ghostSocket.socketType : null,
+  ghostPosition: ghostSocket ? toTuple(ghostSocket.position) : null,
+  alignment: null,
+  resultingPosition: null,
+  resultingRotation: null,
+  distanceToCursor: null,
+  rotationPenalty: 0,
+  scoreBias: 0,
+  preferredBonus: 0,
+  score: null,
+  rejection,
+});
+
+const toSnapTarget = (option: SnapOption): PreferredSnapTarget => ({
+  type: option.targetType,
+  socketType: option.socketType,
+  position: option.anchor.clone(),
+  candidateKey: snapCandidateKey(option),
+});
+
+// Outline keys per type and rotation (in milliradians); pieces only use a few rotations
+const colliderKeyCache = new Map<BuildingType, Map<number, string>>();
+
+/**
+ * Collider outline of a piece rotated about its origin, as sorted vertices.
+ */
+const rotatedColliderKey = (type: BuildingType, rotationY: number): string => {
+  let byRotation = colliderKeyCache.get(type);
+  if (!byRotation) {
+    byRotation = new Map();
+    colliderKeyCache.set(type, byRotation);
+  }
+  const angle = Math.round((((rotationY % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) * 1000);
+  let key = byRotation.get(angle);
+  if (key === undefined) {
+    const cos = Math.cos(rotationY);
+    const sin = Math.sin(rotationY);
+    key = getBuildingDef(type).collider.polygons
+      .flatMap((polygon) => polygon.map(([px, pz]) => `${keyNumber(px * cos + pz * sin)},${keyNumber(-px * sin + pz * cos)}`))
+      .sort()
+      .join(';');
+    byRotation.set(angle, key);
+  }
+  return key;
+};
+
+const POSITION_MATCH_DISTANCE_SQ = 0.01 * 0.01;
+
+// Tab cycles through at most this many placements, nearest first
+const MAX_SNAP_CANDIDATES = 8;
+
+/**
+ * Rank options best first and drop placements that fill the same space as a
+ * better one (a square attached by any of its four edges), so cycling only
+ * visits placements that look different. `rankOf` maps every option,
+ * dropped or not, to the rank of the placement it shares.
+ */
+const rankSnapOptions = (type: BuildingType, options: SnapOption[]): { ranked: SnapOption[]; rankOf: Map<SnapOption, number> } => {
+  const ranked: SnapOption[] = [];
+  const rankOf = new Map<SnapOption, number>();
+  [...options]
+    .sort((a, b) => a.rankScore - b.rankScore)
+    .forEach((option) => {
+      let rank = ranked.findIndex((kept) =>
+        kept.position.distanceToSquared(option.position) < POSITION_MATCH_DISTANCE_SQ &&
+        rotatedColliderKey(type, kept.rotation.y) === rotatedColliderKey(type, option.rotation.y)
+      );
+      if (rank < 0) {
+        rank = ranked.length;
+        ranked.push(option);
+      }
+      rankOf.set(option, rank);
+    });
+  return { ranked, rankOf };
+};
+
 /**
  * Enhanced snapping logic using EDGE SEGMENTS for foundations.
  *
@@ -713,58 +1023,68 @@ export const getCompatibleSocketTypes = (activeType: BuildingType): SocketType[]
  * For walls/roofs: Still uses point-based sockets (legacy system).
  *
  * Returns socketWorldY for height auto-snapping (null for grid fallback).
+ * With a terrain, grid placements rest on the highest ground under the piece;
+ * build rules add claim area and piece limit issues.
  */
 export const calculateSnap = (
   rayIntersectionPoint: THREE.Vector3,
   buildings: BuildingData[],
   activeType: BuildingType,
   currentRotationY: number,
-  debugCallback?: (debugInfo: any) => void,
-  preferredTarget?: PreferredSnapTarget
+  debugCallback?: (debugInfo: DebugSnapCalculation) => void,
+  preferredTarget?: PreferredSnapTarget,
+  context: PlacementContext = {}
 ): {
   position: THREE.Vector3;
   rotation: THREE.Euler;
   isValid: boolean;
+  issues: PlacementIssue[];
   socketWorldY: number | null;
   snappedToSocket: boolean;
   snapTarget?: PreferredSnapTarget;
+  candidates: PreferredSnapTarget[];  // Distinct placements, best first (Tab cycles through them)
+  candidateIndex: number;             // Index of the chosen placement in `candidates`, -1 on the grid
 } => {
   if (!rayIntersectionPoint) {
     return {
       position: new THREE.Vector3(),
       rotation: new THREE.Euler(),
       isValid: false,
+      issues: [],
       socketWorldY: null,
       snappedToSocket: false,
+      candidates: [],
+      candidateIndex: -1,
     };
   }
 
+  snapIndex.sync(buildings);
+
   let finalPos = new THREE.Vector3(rayIntersectionPoint.x, 0, rayIntersectionPoint.z);
   let finalRot = new THREE.Euler(0, currentRotationY, 0);
   let snappedToSocket = false;
   let socketWorldY: number | null = null;
   let snapTarget: PreferredSnapTarget | undefined;
 
-  const debugCandidates: any[] = [];
+  // Only built when recording, as every target near the cursor gets one
+  const debugCandidates: DebugSnapCandidate[] | null = debugCallback ? [] : null;
+  const debugIndexOf = new Map<SnapOption, number>();
+  let compatibleSocketsFound = 0;
+  const snapOptions: SnapOption[] = [];
   const SNAP_RADIUS = 3.5; // Slightly larger to catch edges
 
-  const isWallLike =
-    activeType === BuildingType.WALL ||
-    activeType === BuildingType.HALF_WALL ||
-    activeType === BuildingType.WINDOW_WALL ||
-    activeType === BuildingType.DOORWAY;
+  const rules = getBuildingDef(activeType).snap;
 
   // ==========================================================================
   // FOUNDATION SNAPPING - Edge-based system
   // ==========================================================================
-  if (usesEdgeSockets(activeType) && !isWallLike) {
-    // Collect all world edge sockets from existing foundations
-    const allEdges: EdgeSocket[] = [];
-    buildings.forEach(b => {
-      if (usesEdgeSockets(b.type)) {
-        allEdges.push(...getWorldEdgeSockets(b));
-      }
-    });
+  if (rules.edgeToEdge) {
+    // Edge sockets of existing foundations near the cursor
+    const nearbyEdges = snapIndex
+      .queryEdges(rayIntersectionPoint, SNAP_RADIUS)
+      .filter((edge) => usesEdgeSockets(snapIndex.getBuilding(edge.id).type));
+
+    compatibleSocketsFound += nearbyEdges.length;
 
     // Get ghost piece's local edge sockets
     const ghostEdges = getLocalEdgeSockets(activeType);
@@ -780,37 +1100,29 @@ export const calculateSnap = (
 
     let bestCandidate: EdgeSnapCandidate | null = null;
 
-    for (const targetEdge of allEdges) {
-      // Check if edge midpoint is within snap radius
-      const edgeMidpoint = targetEdge.start.clone().add(targetEdge.end).multiplyScalar(0.5);
-      const distToEdge = edgeMidpoint.distanceTo(rayIntersectionPoint);
-      if (distToEdge > SNAP_RADIUS) continue;
-
-      // Check if this edge is already occupied
-      let isOccupied = false;
-      for (const building of buildings) {
-        if (building.id === targetEdge.id) continue;
-
-        // Check if any other building's edges overlap with this target edge
-        const otherEdges = getWorldEdgeSockets(building);
-        for (const otherEdge of otherEdges) {
-          const otherMidpoint = otherEdge.start.clone().add(otherEdge.end).multiplyScalar(0.5);
-          if (edgeMidpoint.distanceTo(otherMidpoint) < 0.5) {
-            isOccupied = true;
-            break;
-          }
-        }
-        if (isOccupied) break;
+    for (const targetEdge of nearbyEdges) {
+      // Skip edges another building's edge already sits on
+      const isOccupied = snapIndex
+        .queryEdges(targetEdge.center, EDGE_OCCUPIED_DISTANCE)
+        .some((otherEdge) => otherEdge.id !== targetEdge.id && otherEdge.center.distanceTo(targetEdge.center) < EDGE_OCCUPIED_DISTANCE);
+      if (isOccupied) {
+        if (debugCandidates) debugCandidates.push(edgeDebugCandidate(targetEdge, null, 'edge-occupied'));
+        continue;
       }
-      if (isOccupied) continue;
 
       // Try to snap each ghost edge to this target edge
       for (const ghostEdge of ghostEdges) {
         // Only snap edges of same length
-        if (Math.abs(ghostEdge.edgeLength - targetEdge.edgeLength) > 0.01) continue;
+        if (Math.abs(ghostEdge.edgeLength - targetEdge.edgeLength) > 0.01) {
+          if (debugCandidates) debugCandidates.push(edgeDebugCandidate(targetEdge, ghostEdge, 'length-mismatch'));
+          continue;
+        }
 
         const transform = calculateEdgeSnapTransform(targetEdge, ghostEdge);
-        if (!transform) continue;
+        if (!transform) {
+          if (debugCandidates) debugCandidates.push(edgeDebugCandidate(targetEdge, ghostEdge, 'no-edge-transform'));
+          continue;
+        }
 
         // Score by distance from cursor to resulting piece center
         const distToCursor = transform.position.distanceTo(rayIntersectionPoint);
@@ -818,17 +1130,34 @@ export const calculateSnap = (
           preferredTarget?.type === 'edge' &&
           preferredTarget.socketType === targetEdge.socketType &&
           preferredTarget.position.distanceTo(targetEdge.center) < 0.2;
-        const score = distToCursor - (isPreferred ? 0.8 : 0);
-
-        debugCandidates.push({
-          targetEdgeStart: [targetEdge.start.x, targetEdge.start.y, targetEdge.start.z],
-          targetEdgeEnd: [targetEdge.end.x, targetEdge.end.y, targetEdge.end.z],
-          ghostEdgeStart: [ghostEdge.start.x, ghostEdge.start.y, ghostEdge.start.z],
-          ghostEdgeEnd: [ghostEdge.end.x, ghostEdge.end.y, ghostEdge.end.z],
-          resultingPosition: [transform.position.x, transform.position.y, transform.position.z],
-          resultingRotation: [transform.rotation.x, transform.rotation.y, transform.rotation.z],
-          distanceToCursor: distToCursor,
-        });
+        const preferredBonus = isPreferred ? PREFERRED_TARGET_BONUS : 0;
+        const score = distToCursor - preferredBonus;
+
+        const option: SnapOption = {
+          position: transform.position,
+          rotation: transform.rotation,
+          score,
+          rankScore: distToCursor,
+          socketWorldY: targetEdge.center.y,
+          targetType: 'edge',
+          socketType: targetEdge.socketType,
+          anchor: targetEdge.center,
+          targetId: targetEdge.id,
+          ghostIndex: ghostEdges.indexOf(ghostEdge),
+        };
+        snapOptions.push(option);
+
+        if (debugCandidates) {
+          debugIndexOf.set(option, debugCandidates.length);
+          debugCandidates.push({
+            ...edgeDebugCandidate(targetEdge, ghostEdge),
+            resultingPosition: toTuple(transform.position),
+            resultingRotation: toTuple(transform.rotation),
+            distanceToCursor: distToCursor,
+            preferredBonus,
+            score,
+          });
+        }
 
         if (!bestCandidate || score < bestCandidate.score) {
           bestCandidate = {
@@ -862,35 +1191,17 @@ export const calculateSnap = (
   // ==========================================================================
   // If we haven't snapped yet (e.g. Foundation didn't find an edge), try point snapping
   if (!snappedToSocket) {
-    const allSockets: Socket[] = [];
-    buildings.forEach(b => {
-      allSockets.push(...getWorldSockets(b));
-    });
-    const buildingById = new Map(buildings.map((b) => [b.id, b]));
-
     const compatibleTypes = getCompatibleSocketTypes(activeType);
-    const compatibleSockets = allSockets.filter(s => compatibleTypes.includes(s.socketType));
+    const compatibleSockets = snapIndex
+      .querySockets(rayIntersectionPoint, SNAP_RADIUS)
+      .filter(s => compatibleTypes.includes(s.socketType));
+    compatibleSocketsFound += compatibleSockets.length;
     const ghostLocals = getLocalSockets(activeType);
-    const isCurvedWall =
-      activeType === BuildingType.CURVED_WALL ||
-      activeType === BuildingType.CURVED_HALF_WALL;
-    const isIncline =
-      activeType === BuildingType.STAIRS ||
-      activeType === BuildingType.STAIRS_2 ||
-      activeType === BuildingType.RAMP;
-    const preferInclineSockets =
-      isIncline &&
-      rayIntersectionPoint.y > 0.5 &&
-      compatibleSockets.some(
-        (s) =>
-          s.socketType === SocketType.INCLINE_TOP ||
-          s.socketType === SocketType.INCLINE_BOTTOM
-      );
-    const isDiagonalNormal = (normal: THREE.Vector3) => {
-      const ax = Math.abs(normal.x);
-      const az = Math.abs(normal.z);
-      return ax > 0.5 && az > 0.5 && Math.abs(ax - az) < 0.2;
-    };
+    const preferTargets = rules.preferTargets;
+    const onlyPreferredTargets =
+      !!preferTargets &&
+      rayIntersectionPoint.y > preferTargets.minCursorY &&
+      compatibleSockets.some((s) => preferTargets.sockets.includes(s.socketType));
 
     interface PointSnapCandidate {
       position: THREE.Vector3;
@@ -904,67 +1215,35 @@ export const calculateSnap = (
     let bestCandidate: PointSnapCandidate | null = null;
 
     for (const targetSocket of compatibleSockets) {
-      if (
-        preferInclineSockets &&
-        targetSocket.socketType !== SocketType.INCLINE_TOP &&
-        targetSocket.socketType !== SocketType.INCLINE_BOTTOM
-      ) {
+      if (onlyPreferredTargets && !preferTargets.sockets.includes(targetSocket.socketType)) {
+        if (debugCandidates) debugCandidates.push(socketDebugCandidate(targetSocket, null, 'not-preferred-target'));
         continue;
       }
 
-      if (isCurvedWall) {
-        const targetBuilding = buildingById.get(targetSocket.id);
-        if (targetBuilding) {
-          if (
-            targetBuilding.type === BuildingType.CURVED_WALL ||
-            targetBuilding.type === BuildingType.CURVED_HALF_WALL
-          ) {
-            if (
-              targetSocket.socketType !== SocketType.WALL_SIDE &&
-              targetSocket.socketType !== SocketType.WALL_TOP
-            ) {
-              continue;
-            }
-          } else if (targetBuilding.type === BuildingType.CURVED_FOUNDATION ||
-            targetBuilding.type === BuildingType.CURVED_STRUCTURE) {
-            if (targetSocket.socketType !== SocketType.FOUNDATION_TOP || !isDiagonalNormal(targetSocket.normal)) {
-              continue;
-            }
-          } else if (getBuildingDef(targetBuilding.type).category === 'wall') {
-            if (targetSocket.socketType !== SocketType.WALL_SIDE) {
-              continue;
-            }
-          }
-        }
+      const targetBuilding = snapIndex.getBuilding(targetSocket.id);
+      if (!allowsSnapTarget(rules, targetBuilding, targetSocket)) {
+        if (debugCandidates) debugCandidates.push(socketDebugCandidate(targetSocket, null, 'target-not-allowed'));
+        continue;
       }
 
       const distToSocket = targetSocket.position.distanceTo(rayIntersectionPoint);
-      if (distToSocket > SNAP_RADIUS) continue;
+      if (distToSocket > SNAP_RADIUS) {
+        if (debugCandidates) debugCandidates.push(socketDebugCandidate(targetSocket, null, 'out-of-range'));
+        continue;
+      }
 
       const targetCompatible = SOCKET_COMPATIBILITY[targetSocket.socketType] || [];
       const matchingGhostSockets = ghostLocals.filter(gs => targetCompatible.includes(gs.socketType));
 
-      if (matchingGhostSockets.length === 0) continue;
+      if (matchingGhostSockets.length === 0) {
+        if (debugCandidates) debugCandidates.push(socketDebugCandidate(targetSocket, null, 'no-matching-ghost-socket'));
+        continue;
+      }
 
       for (const gSocket of matchingGhostSockets) {
-        const isWallStack =
-          targetSocket.socketType === SocketType.WALL_TOP &&
-          gSocket.socketType === SocketType.WALL_BOTTOM;
-        const targetBuilding = buildingById.get(targetSocket.id);
-        const isCurvedWallConnection =
-          isCurvedWall &&
-          targetSocket.socketType === SocketType.WALL_SIDE &&
-          targetBuilding &&
-          (targetBuilding.type === BuildingType.CURVED_WALL ||
-            targetBuilding.type === BuildingType.CURVED_HALF_WALL);
+        const alignment = findSnapAlignment(rules, targetSocket, gSocket.socketType, targetBuilding);
         let rotY: number;
-        if (isWallStack) {
-          // Align stacked walls to the existing wall's facing direction.
-          const targetNormal = targetSocket.normal.clone();
-          const targetAngle = Math.atan2(targetNormal.x, targetNormal.z);
-          const localAngle = Math.atan2(gSocket.normal.x, gSocket.normal.z);
-          rotY = targetAngle - localAngle;
-        } else if (isCurvedWallConnection) {
+        if (alignment === 'perpendicular') {
           const targetRotY = targetBuilding.rotation[1];
           const xDir = new THREE.Vector3(Math.cos(targetRotY), 0, -Math.sin(targetRotY));
           const zDir = new THREE.Vector3(Math.sin(targetRotY), 0, Math.cos(targetRotY));
@@ -972,13 +1251,10 @@ export const calculateSnap = (
           const dotZ = targetSocket.normal.dot(zDir);
           rotY = dotX >= dotZ ? targetRotY + Math.PI / 2 : targetRotY - Math.PI / 2;
         } else {
-          const shouldAlignOutward =
-            targetSocket.socketType === SocketType.FOUNDATION_TOP &&
-            gSocket.socketType === SocketType.WALL_BOTTOM;
-          // Align wall outward on foundation edges; keep opposite-facing for other snaps.
-          const targetNormal = shouldAlignOutward
-            ? targetSocket.normal.clone()
-            : targetSocket.normal.clone().negate();
+          // 'stack' and 'outward' follow the target normal; 'oppose' faces it
+          const targetNormal = alignment === 'oppose'
+            ? targetSocket.normal.clone().negate()
+            : targetSocket.normal.clone();
           const targetAngle = Math.atan2(targetNormal.x, targetNormal.z);
           const localAngle = Math.atan2(gSocket.normal.x, gSocket.normal.z);
           rotY = targetAngle - localAngle;
@@ -1002,27 +1278,45 @@ export const calculateSnap = (
         // Small tolerance for float comparison, treat 2PI as 0
         const isMatch = rotDiff < 0.1 || Math.abs(rotDiff - 2 * Math.PI) < 0.1;
 
-        if (!isWallStack && !isMatch) {
+        if (alignment !== 'stack' && !isMatch) {
           rotationPenalty = 0.5; // Penalty equivalent to 0.5 units of distance
         }
 
-        let score = distToCursor + rotationPenalty;
-        if (isWallLike && rayIntersectionPoint.y > 0.25 && targetSocket.socketType === SocketType.WALL_TOP) {
-          score -= 1.0; // Prefer stacking when the cursor is above ground.
-        }
+        const scoreBias = snapScoreBias(rules, targetSocket.socketType, rayIntersectionPoint.y);
         const isPreferred =
           preferredTarget?.type === 'socket' &&
           preferredTarget.socketType === targetSocket.socketType &&
           preferredTarget.position.distanceTo(targetSocket.position) < 0.2;
-        if (isPreferred) {
-          score -= 0.8;
-        }
-        if (
-          rayIntersectionPoint.y > 0.5 &&
-          (targetSocket.socketType === SocketType.INCLINE_TOP ||
-            targetSocket.socketType === SocketType.INCLINE_BOTTOM)
-        ) {
-          score -= 0.6; // Bias toward incline snapping when above ground.
+        const preferredBonus = isPreferred ? PREFERRED_TARGET_BONUS : 0;
+        const score = distToCursor + rotationPenalty + scoreBias - preferredBonus;
+
+        const option: SnapOption = {
+          position: candidatePos,
+          rotation: candidateRot,
+          score,
+          rankScore: score + preferredBonus,
+          socketWorldY: targetSocket.position.y,
+          targetType: 'socket',
+          socketType: targetSocket.socketType,
+          anchor: targetSocket.position,
+          targetId: targetSocket.id,
+          ghostIndex: ghostLocals.indexOf(gSocket),
+        };
+        snapOptions.push(option);
+
+        if (debugCandidates) {
+          debugIndexOf.set(option, debugCandidates.length);
+          debugCandidates.push({
+            ...socketDebugCandidate(targetSocket, gSocket),
+            alignment,
+            resultingPosition: toTuple(candidatePos),
+            resultingRotation: toTuple(candidateRot),
+            distanceToCursor: distToCursor,
+            rotationPenalty,
+            scoreBias,
+            preferredBonus,
+            score,
+          });
         }
 
         if (!bestCandidate || score < bestCandidate.score) {
@@ -1051,99 +1345,110 @@ export const calculateSnap = (
     }
   }
 
+  // ==========================================================================
+  // CANDIDATE CYCLING - A pinned candidate wins while it is still available
+  // ==========================================================================
+  const { ranked, rankOf } = rankSnapOptions(activeType, snapOptions);
+  const pinnedOption = preferredTarget?.candidateKey
+    ? snapOptions.find((option) =>
+      option.targetType === preferredTarget.type &&
+      option.anchor.distanceToSquared(preferredTarget.position) < POSITION_MATCH_DISTANCE_SQ &&
+      snapCandidateKey(option) === preferredTarget.candidateKey)
+    : undefined;
+  if (pinnedOption) {
+    finalPos = pinnedOption.position;
+    finalRot = pinnedOption.rotation;
+    socketWorldY = pinnedOption.socketWorldY;
+    // Keep the key on the returned target so the pin carries over to the next frame
+    snapTarget = toSnapTarget(pinnedOption);
+  }
+  // First lowest score, same tie-breaking as the candidate loops
+  const chosenOption = pinnedOption ?? snapOptions.reduce<SnapOption | null>((best, option) => (!best || option.score < best.score ? option : best), null);
+  const chosenRank = chosenOption ? rankOf.get(chosenOption)! : -1;
+  const candidates = ranked.slice(0, MAX_SNAP_CANDIDATES).map(toSnapTarget);
+  const candidateIndex = chosenRank < candidates.length ? chosenRank : -1;
+
   // ==========================================================================
   // GRID FALLBACK - When no snap target found
   // ==========================================================================
   if (!snappedToSocket) {
-    const gridSnap = UNIT_SIZE;
-    const offset = gridSnap / 2;
-    finalPos.x = Math.round((rayIntersectionPoint.x - offset) / gridSnap) * gridSnap + offset;
-    finalPos.z = Math.round((rayIntersectionPoint.z - offset) / gridSnap) * gridSnap + offset;
-    finalPos.y = 0;
-
-    // Use rotation increment from registry
+    // Use rotation increment from registry; the lattice position depends on it
     const rotSnap = getBuildingDef(activeType).rotationIncrement;
     const snappedRot = Math.round(currentRotationY / rotSnap) * rotSnap;
     finalRot = new THREE.Euler(0, snappedRot, 0);
+    finalPos = snapToLattice(rayIntersectionPoint, activeType, snappedRot);
+    if (context.terrain) {
+      finalPos.y = getFootprintGroundRange(context.terrain, activeType, [finalPos.x, 0, finalPos.z], snappedRot)[1];
+    }
   }
 
   // ==========================================================================
   // VALIDATION
   // ==========================================================================
-  const isFoundationLike = getBuildingDef(activeType).category === 'foundation';
-  let isValid = true;
-
-  // Global collision check (even if snapped)
-  // Prevent foundations from overlapping other foundations
-  if (usesEdgeSockets(activeType) && isFoundationLike) {
-    for (const b of buildings) {
-      // Only check against other foundation-like pieces
-      if (!usesEdgeSockets(b.type) || getBuildingDef(b.type).category !== 'foundation') continue;
-
-      const bPos = new THREE.Vector3(b.position[0], b.position[1], b.position[2]);
-      const dist = bPos.distanceTo(finalPos);
-
-      // If distance is too small, they are overlapping
-      // Unit size is 4. Standard adjacent distance is 4.
-      // Diagonal adjacent is sqrt(32) ~ 5.6
-      // Overlapping is dist ~ 0.
-      // We use 2.0 as a safe threshold (half a unit).
-      if (dist < 2.0) {
-        isValid = false;
-        break;
-      }
-    }
-  }
-
-  // Legacy distance check for non-snapped items (prevents placing inside others when free-placing)
-  if (!snappedToSocket && isValid) {
-    const isFoundation = usesEdgeSockets(activeType);
-
-    for (const b of buildings) {
-      const bPos = new THREE.Vector3(b.position[0], b.position[1], b.position[2]);
-      const dist = bPos.distanceTo(finalPos);
-
-    if (isFoundation && usesEdgeSockets(b.type) && getBuildingDef(b.type).category === 'foundation') {
-      if (dist < 2.0) {
-        isValid = false;
-        break;
-      }
-      } else if (dist < 0.2) {
-        isValid = false;
-        break;
-      }
+  // Reject placements whose collider overlaps an existing piece
+  const ghost: BuildingData = {
+    id: GHOST_COLLISION_ID,
+    type: activeType,
+    position: [finalPos.x, finalPos.y, finalPos.z],
+    rotation: [finalRot.x, finalRot.y, finalRot.z],
+  };
+  const issues: PlacementIssue[] = [];
+
+  // A colliding piece with a socket on the snap target is sitting where the ghost wants to go
+  const holdsSnapTarget = (id: string) =>
+    !!snapTarget &&
+    (snapIndex.querySockets(snapTarget.position, SOCKET_HOLD_DISTANCE).some((s) => s.id === id) ||
+      snapIndex.queryEdges(snapTarget.position, SOCKET_HOLD_DISTANCE).some((e) => e.id === id));
+
+  // Broad phase: only pieces close enough in plan for their footprints to reach the ghost's
+  const nearby = snapIndex.queryBuildings(finalPos, getColliderRadius(activeType) + getMaxColliderRadius());
+  for (const id of findCollidingBuildings(ghost, nearby)) {
+    const other = snapIndex.getBuilding(id);
+    if (holdsSnapTarget(id)) {
+      issues.push({ kind: 'socket-occupied', message: `Socket taken by ${formatBuildingType(other.type)}`, buildingId: id });
+    } else {
+      issues.push(createOverlapIssue(other));
     }
   }
 
   // Roofs require snapping (use category from registry)
   if (!snappedToSocket && getBuildingDef(activeType).category === 'roof') {
-    isValid = false;
+    issues.push({ kind: 'roof-not-snapped', message: 'Roofs must snap to a wall top or roof edge' });
   }
 
-  // Prevent exact overlap for non-foundation stacking and snapped placements.
-  if (isValid) {
-    for (const b of buildings) {
-      const bPos = new THREE.Vector3(b.position[0], b.position[1], b.position[2]);
-      const dist = bPos.distanceTo(finalPos);
-      if (dist < 0.2) {
-        isValid = false;
-        break;
-      }
-    }
+  if (Math.abs(finalPos.x) > BUILD_AREA_HALF_EXTENT || Math.abs(finalPos.z) > BUILD_AREA_HALF_EXTENT) {
+    issues.push({ kind: 'out-of-bounds', message: 'Outside the build area' });
   }
+  issues.push(...findBuildRuleIssues([ghost], buildings, context.buildRules));
+
+  const isValid = issues.length === 0;
 
   // Debug callback
   if (debugCallback) {
     debugCallback({
-      rayPoint: [rayIntersectionPoint.x, rayIntersectionPoint.y, rayIntersectionPoint.z],
-      candidates: debugCandidates,
-      finalPosition: [finalPos.x, finalPos.y, finalPos.z],
-      finalRotation: [finalRot.x, finalRot.y, finalRot.z],
+      rayPoint: toTuple(rayIntersectionPoint),
+      compatibleSocketsFound,
+      candidates: debugCandidates ?? [],
+      selectedCandidate: chosenOption ? debugIndexOf.get(chosenOption) ?? null : null,
+      pinned: !!pinnedOption,
+      finalPosition: toTuple(finalPos),
+      finalRotation: toTuple(finalRot),
       isValid,
+      issues,
       snappedToSocket,
       socketWorldY,
     });
   }
 
-  return { position: finalPos, rotation: finalRot, isValid, socketWorldY, snappedToSocket, snapTarget };
+  return {
+    position: finalPos,
+    rotation: finalRot,
+    isValid,
+    issues,
+    socketWorldY,
+    snappedToSocket,
+    snapTarget,
+    candidates,
+    candidateIndex,
+  };
 };
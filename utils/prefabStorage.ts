@@ -0,0 +1,93 @@
+import { SavedPrefab } from '../types';
+import { parseBlueprint } from './blueprintSchema';
+
+const PREFAB_STORAGE_KEY = 'dune-prefabs';
+
+/**
+ * Result of parsing a prefab. `prefab` is null whenever `errors` is non-empty.
+ */
+export interface PrefabParseResult {
+  prefab: SavedPrefab | null;
+  errors: string[];
+}
+
+/**
+ * Validate raw parsed JSON as a prefab: a blueprint (migrated and checked by
+ * the blueprint schema) with at least one piece. The prefab keeps its id when
+ * it has one and gets a fresh one otherwise.
+ */
+export const parsePrefab = (data: unknown, fallbackName = 'Untitled Prefab'): PrefabParseResult => {
+  const { blueprint, errors } = parseBlueprint(data, fallbackName);
+  if (blueprint && blueprint.buildings.length === 0) {
+    errors.push('buildings: a prefab needs at least one piece');
+  }
+  if (!blueprint || errors.length > 0) return { prefab: null, errors };
+
+  const id = data && typeof data === 'object' ? (data as { id?: unknown }).id : undefined;
+  return {
+    prefab: { ...blueprint, id: typeof id === 'string' && id ? id : crypto.randomUUID() },
+    errors: [],
+  };
+};
+
+/**
+ * Load the prefab library from browser storage.
+ * Returns an empty library if nothing is stored or the data is unreadable.
+ * Every entry goes through parsePrefab; invalid entries are logged and skipped.
+ */
+export const loadPrefabs = (): SavedPrefab[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(PREFAB_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) {
+      console.error('Ignoring stored prefabs: expected an array');
+      return [];
+    }
+    const prefabs: SavedPrefab[] = [];
+    parsed.forEach((entry: unknown, index) => {
+      const { prefab, errors } = parsePrefab(entry);
+      if (!prefab) {
+        console.error(`Ignoring invalid stored prefab ${index}`, errors);
+        return;
+      }
+      prefabs.push(prefab);
+    });
+    return prefabs;
+  } catch (e) {
+    console.error('Failed to load prefabs', e);
+    return [];
+  }
+};
+
+/**
+ * Persist the prefab library to browser storage.
+ * Returns false if the write failed (e.g. quota exceeded).
+ */
+export const savePrefabs = (prefabs: SavedPrefab[]): boolean => {
+  try {
+    localStorage.setItem(PREFAB_STORAGE_KEY, JSON.stringify(prefabs));
+    return true;
+  } catch (e) {
+    console.error('Failed to save prefabs', e);
+    return false;
+  }
+};
+
+/**
+ * Download a prefab as a `.dune-prefab.json` file.
+ */
+export const downloadPrefab = (prefab: SavedPrefab) => {
+  const json = JSON.stringify(prefab, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${prefab.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.dune-prefab.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,178 @@
+import { BuildingData, BuildingType, SocketType, UNIT_SIZE, WALL_HEIGHT, HALF_WALL_HEIGHT } from '../types';
+import { getBuildingDef } from '../data/BuildingRegistry';
+import { getWorldSockets } from './geometry';
+
+// =============================================================================
+// Room Model
+// =============================================================================
+//
+// Every foundation is a floor cell. Its FOUNDATION_TOP sockets are the cell's
+// sides: a wall standing on a side has its WALL_BOTTOM socket at the same
+// point, and two adjacent cells share the point. Cells are joined into one
+// room across sides that nothing (or only a half wall) separates. A room is
+// enclosed when every outer side is closed and every cell has something
+// overhead; doorways count as openings, not gaps.
+
+/** Max distance between two side points for them to count as the same side */
+const SIDE_TOLERANCE = 0.15;
+/** Max horizontal offset between a cell and the roof or floor above it */
+const COVER_TOLERANCE = UNIT_SIZE / 4;
+/** Extra height allowed above WALL_HEIGHT when looking for cover (roof on a wall top) */
+const COVER_CLEARANCE = 0.5;
+
+const FLOOR_AREAS: Partial<Record<BuildingType, number>> = {
+  [BuildingType.SQUARE_FOUNDATION]: UNIT_SIZE * UNIT_SIZE,
+  [BuildingType.SQUARE_STRUCTURE]: UNIT_SIZE * UNIT_SIZE,
+  [BuildingType.TRIANGLE_FOUNDATION]: (Math.sqrt(3) / 4) * UNIT_SIZE * UNIT_SIZE,
+  [BuildingType.TRIANGLE_FOUNDATION_2]: (Math.sqrt(3) / 4) * UNIT_SIZE * UNIT_SIZE,
+  [BuildingType.TRIANGLE_STRUCTURE]: (Math.sqrt(3) / 4) * UNIT_SIZE * UNIT_SIZE,
+  // Quarter disc bounded by the two straight edges
+  [BuildingType.CURVED_FOUNDATION]: (Math.PI / 4) * UNIT_SIZE * UNIT_SIZE,
+  [BuildingType.CURVED_STRUCTURE]: (Math.PI / 4) * UNIT_SIZE * UNIT_SIZE,
+};
+
+/** Walls that close a side completely */
+const SEALING_WALLS = new Set<BuildingType>([BuildingType.WALL, BuildingType.WINDOW_WALL, BuildingType.CURVED_WALL]);
+/** Walls that only close the lower part of a side */
+const PARTIAL_WALLS = new Set<BuildingType>([BuildingType.HALF_WALL, BuildingType.CURVED_HALF_WALL]);
+
+export type RoomGapKind = 'missing-wall' | 'half-wall' | 'missing-roof';
+
+export interface RoomGap {
+  kind: RoomGapKind;
+  position: [number, number, number];  // Side point on the floor, or cell center for missing roofs
+  normal: [number, number, number];    // Outward side normal (straight up for missing roofs)
+  buildingId: string;                  // Half wall for 'half-wall', floor cell otherwise
+}
+
+export interface RoomOpening {
+  buildingId: string;  // Doorway piece
+  position: [number, number, number];
+}
+
+export interface Room {
+  id: string;             // Id of the first floor cell, stable while the room keeps that cell
+  floorIds: string[];
+  wallIds: string[];      // Walls and doorways on the room's sides, including interior ones
+  floorArea: number;
+  openings: RoomOpening[];
+  gaps: RoomGap[];
+  enclosed: boolean;
+}
+
+export interface RoomAnalysis {
+  rooms: Room[];
+  enclosedCount: number;
+  gapBuildingIds: string[];  // Every piece referenced by a gap, for highlighting
+}
+
+interface CellSide {
+  cellId: string;
+  position: [number, number, number];
+  normal: [number, number, number];
+}
+
+const toTuple = (v: { x: number; y: number; z: number }): [number, number, number] => [v.x, v.y, v.z];
+
+const distance = (a: [number, number, number], b: [number, number, number]) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Find enclosed rooms in a layout. Pure function of the buildings.
+ */
+export const analyzeRooms = (buildings: BuildingData[]): RoomAnalysis => {
+  const cells = buildings.filter((b) => getBuildingDef(b.type).category === 'foundation');
+  const walls = buildings.filter((b) => getBuildingDef(b.type).category === 'wall');
+  const covers = buildings.filter((b) => {
+    const category = getBuildingDef(b.type).category;
+    return category === 'roof' || category === 'foundation';
+  });
+
+  const sides: CellSide[] = [];
+  cells.forEach((cell) => {
+    getWorldSockets(cell)
+      .filter((s) => s.socketType === SocketType.FOUNDATION_TOP)
+      .forEach((s) => sides.push({ cellId: cell.id, position: toTuple(s.position), normal: toTuple(s.normal) }));
+  });
+
+  const wallBottoms = walls.flatMap((wall) =>
+    getWorldSockets(wall)
+      .filter((s) => s.socketType === SocketType.WALL_BOTTOM)
+      .map((s) => ({ wall, position: toTuple(s.position) }))
+  );
+  const wallAt = (position: [number, number, number]) =>
+    wallBottoms.find((w) => distance(w.position, position) <= SIDE_TOLERANCE)?.wall;
+
+  // Union-find over cells
+  const parent = new Map(cells.map((c) => [c.id, c.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  // Per side: the wall on it and whether another cell shares it
+  const sideInfo = sides.map((side) => {
+    const neighbor = sides.find((other) => other.cellId !== side.cellId && distance(other.position, side.position) <= SIDE_TOLERANCE);
+    const wall = wallAt(side.position);
+    if (neighbor && (!wall || PARTIAL_WALLS.has(wall.type))) {
+      parent.set(find(side.cellId), find(neighbor.cellId));
+    }
+    return { side, neighbor, wall };
+  });
+
+  const isCovered = (cell: BuildingData) => {
+    const floorY = cell.position[1];
+    return covers.some((c) => {
+      if (c.id === cell.id) return false;
+      const height = c.position[1] - floorY;
+      return height > HALF_WALL_HEIGHT
+        && height <= WALL_HEIGHT + COVER_CLEARANCE
+        && Math.hypot(c.position[0] - cell.position[0], c.position[2] - cell.position[2]) <= COVER_TOLERANCE;
+    });
+  };
+
+  const roomsByRoot = new Map<string, Room>();
+  cells.forEach((cell) => {
+    const root = find(cell.id);
+    let room = roomsByRoot.get(root);
+    if (!room) {
+      room = { id: cell.id, floorIds: [], wallIds: [], floorArea: 0, openings: [], gaps: [], enclosed: false };
+      roomsByRoot.set(root, room);
+    }
+    room.floorIds.push(cell.id);
+    room.floorArea += FLOOR_AREAS[cell.type] ?? 0;
+    if (!isCovered(cell)) {
+      room.gaps.push({ kind: 'missing-roof', position: [...cell.position], normal: [0, 1, 0], buildingId: cell.id });
+    }
+  });
+
+  sideInfo.forEach(({ side, neighbor, wall }) => {
+    const room = roomsByRoot.get(find(side.cellId))!;
+    if (wall && !room.wallIds.includes(wall.id)) room.wallIds.push(wall.id);
+
+    // Sides inside the room are neither openings nor gaps
+    if (neighbor && find(neighbor.cellId) === find(side.cellId)) return;
+
+    if (!wall) {
+      room.gaps.push({ kind: 'missing-wall', position: side.position, normal: side.normal, buildingId: side.cellId });
+    } else if (PARTIAL_WALLS.has(wall.type)) {
+      room.gaps.push({ kind: 'half-wall', position: side.position, normal: side.normal, buildingId: wall.id });
+    } else if (wall.type === BuildingType.DOORWAY) {
+      room.openings.push({ buildingId: wall.id, position: side.position });
+    } else if (!SEALING_WALLS.has(wall.type)) {
+      room.gaps.push({ kind: 'missing-wall', position: side.position, normal: side.normal, buildingId: side.cellId });
+    }
+  });
+
+  // Floors without any walls are open ground, not rooms
+  const rooms = [...roomsByRoot.values()].filter((room) => room.wallIds.length > 0);
+  rooms.forEach((room) => { room.enclosed = room.gaps.length === 0; });
+
+  return {
+    rooms,
+    enclosedCount: rooms.filter((r) => r.enclosed).length,
+    gapBuildingIds: [...new Set(rooms.flatMap((r) => r.gaps.map((g) => g.buildingId)))],
+  };
+};
@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import { BuildingData, UNIT_SIZE } from '../types';
+import { getBuildingDef } from '../data/BuildingRegistry';
+import { getFootprintBounds } from './collision';
+
+/**
+ * Screen-space rectangle in client pixels (as produced by pointer events).
+ */
+export interface ScreenRect {
+  start: [number, number];
+  end: [number, number];
+}
+
+/**
+ * Normalize a drag rectangle so min <= max on both axes.
+ */
+export const normalizeRect = (rect: ScreenRect) => ({
+  minX: Math.min(rect.start[0], rect.end[0]),
+  maxX: Math.max(rect.start[0], rect.end[0]),
+  minY: Math.min(rect.start[1], rect.end[1]),
+  maxY: Math.max(rect.start[1], rect.end[1]),
+});
+
+/**
+ * Find buildings whose visual center projects inside the screen rectangle.
+ * Works for both the perspective 3D view and the top-down 2D view since it
+ * only relies on the active camera projection.
+ */
+export const getBuildingsInScreenRect = (
+  buildings: BuildingData[],
+  camera: THREE.Camera,
+  rect: ScreenRect,
+  canvasBounds: { left: number; top: number; width: number; height: number }
+): string[] => {
+  const { minX, maxX, minY, maxY } = normalizeRect(rect);
+  const projected = new THREE.Vector3();
+
+  return buildings
+    .filter((b) => {
+      const yOffset = getBuildingDef(b.type).yOffset;
+      projected.set(b.position[0], b.position[1] + yOffset, b.position[2]).project(camera);
+      // Behind the camera
+      if (projected.z > 1) return false;
+
+      const screenX = canvasBounds.left + ((projected.x + 1) / 2) * canvasBounds.width;
+      const screenY = canvasBounds.top + ((1 - projected.y) / 2) * canvasBounds.height;
+      return screenX >= minX && screenX <= maxX && screenY >= minY && screenY <= maxY;
+    })
+    .map((b) => b.id);
+};
+
+/**
+ * Pick the pivot for rotating a group: the piece closest to the group centroid.
+ * Rotating around an actual piece keeps squares on the grid, which an arbitrary
+ * centroid would not.
+ */
+export const getSelectionPivot = (buildings: BuildingData[]): BuildingData | null => {
+  if (buildings.length === 0) return null;
+
+  const centroid = new THREE.Vector3();
+  buildings.forEach((b) => centroid.add(new THREE.Vector3(...b.position)));
+  centroid.divideScalar(buildings.length);
+
+  let pivot = buildings[0];
+  let bestDist = Infinity;
+  for (const b of buildings) {
+    const dist = centroid.distanceTo(new THREE.Vector3(...b.position));
+    if (dist < bestDist) {
+      bestDist = dist;
+      pivot = b;
+    }
+  }
+  return pivot;
+};
+
+/**
+ * Translate buildings by a world-space delta.
+ */
+export const translateBuildings = (
+  buildings: BuildingData[],
+  delta: [number, number, number]
+): BuildingData[] => {
+  return buildings.map((b) => ({
+    ...b,
+    position: [b.position[0] + delta[0], b.position[1] + delta[1], b.position[2] + delta[2]],
+  }));
+};
+
+/**
+ * Rotate buildings around a vertical axis through `pivot` by `angle` radians.
+ */
+export const rotateBuildingsAround = (
+  buildings: BuildingData[],
+  pivot: [number, number, number],
+  angle: number
+): BuildingData[] => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return buildings.map((b) => {
+    const dx = b.position[0] - pivot[0];
+    const dz = b.position[2] - pivot[2];
+    // Same handedness as THREE's rotation around +Y
+    const x = dx * cos + dz * sin;
+    const z = -dx * sin + dz * cos;
+    return {
+      ...b,
+      position: [pivot[0] + x, b.position[1], pivot[2] + z],
+      rotation: [b.rotation[0], b.rotation[1] + angle, b.rotation[2]],
+    };
+  });
+};
+
+/**
+ * Offset that puts a copy of the buildings right beside them along +X:
+ * the footprint width of the whole group, rounded up to whole grid units
+ * so the copy stays on the lattice.
+ */
+export const getDuplicateOffset = (buildings: BuildingData[]): [number, number, number] => {
+  const bounds = buildings.map(getFootprintBounds);
+  const width = Math.max(...bounds.map((b) => b.maxX)) - Math.min(...bounds.map((b) => b.minX));
+  // Tolerance so a width of exactly n units doesn't round up to n + 1
+  const units = Math.max(1, Math.ceil(width / UNIT_SIZE - 1e-6));
+  return [units * UNIT_SIZE, 0, 0];
+};
+
+/**
+ * Copy buildings with fresh ids, optionally offset.
+ */
+export const duplicateBuildings = (
+  buildings: BuildingData[],
+  offset: [number, number, number] = [0, 0, 0]
+): BuildingData[] => {
+  return translateBuildings(buildings, offset).map((b) => ({ ...b, id: crypto.randomUUID() }));
+};
@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+import { BuildingData, BuildingType } from '../types';
+import { DebugFrame, DebugRecording, DebugSnapCalculation, DebugSnapCandidate, RecordedSnapTarget } from '../types/debug';
+import { calculateSnap } from './geometry';
+import { applyBuildingAction, getInitialBuildings } from './debugPlayback';
+import type { PlacementContext, PreferredSnapTarget } from './geometry';
+
+// =============================================================================
+// Snap Replay
+// =============================================================================
+//
+// Re-runs the snap calculations in a debug recording against the current
+// calculateSnap. The layout is rebuilt from the recording's initial state and
+// the place/remove actions before each frame, and each snap gets the cursor
+// point, rotation and sticky target it was recorded with. Recordings before
+// version 4 only hold mouse placements and removals, so undo, selection edits,
+// pastes and loads in them make the rebuilt layout drift from the one the
+// snap saw.
+
+/** Max position difference (world units) and rotation difference (radians) counted as equal */
+export const SNAP_REPLAY_TOLERANCE = 1e-3;
+
+export interface SnapOutcome {
+  position: [number, number, number];
+  rotation: [number, number, number];
+  isValid: boolean;
+  selected?: string | null;  // Chosen candidate (describeSnapCandidate), null on the grid, unset if not recorded
+}
+
+export type SnapDifferenceKind = 'candidate' | 'position' | 'rotation' | 'validity' | 'missing';
+
+export interface SnapDifference {
+  kind: SnapDifferenceKind;
+  message: string;
+}
+
+export interface SnapReplayResult {
+  frameIndex: number;
+  activeType: BuildingType;
+  recorded: SnapOutcome;
+  replayed: SnapOutcome | null;     // null when calculateSnap returned nothing
+  differences: SnapDifference[];    // Empty when the replay matches the recording
+}
+
+/** Replay results for one piece type, for the recording diff */
+export interface SnapDiffGroup {
+  activeType: BuildingType;
+  snapCount: number;
+  differing: SnapReplayResult[];
+  counts: Record<SnapDifferenceKind, number>;  // Differing frames per kind of difference
+}
+
+/**
+ * PreferredSnapTarget to its JSON form for a recording.
+ */
+export const serializeSnapTarget = (target: PreferredSnapTarget | null | undefined): RecordedSnapTarget | null =>
+  target
+    ? {
+      type: target.type,
+      socketType: target.socketType,
+      position: [target.position.x, target.position.y, target.position.z],
+      candidateKey: target.candidateKey,
+    }
+    : null;
+
+const deserializeSnapTarget = (target: RecordedSnapTarget | null | undefined): PreferredSnapTarget | undefined =>
+  target
+    ? {
+      type: target.type,
+      socketType: target.socketType,
+      position: new THREE.Vector3(...target.position),
+      candidateKey: target.candidateKey,
+    }
+    : undefined;
+
+// Smallest difference between two angles, so 0 and 2π count as equal
+const angleDifference = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % (Math.PI * 2);
+  return Math.min(diff, Math.PI * 2 - diff);
+};
+
+const formatVector = (v: [number, number, number], digits = 3) => `[${v.map((n) => n.toFixed(digits)).join(', ')}]`;
+
+/**
+ * Identifies a snap candidate across runs: which target it pairs with which
+ * ghost edge or socket. Positions are rounded so float noise doesn't count as a change.
+ */
+export const describeSnapCandidate = (candidate: DebugSnapCandidate): string => {
+  const target = `${candidate.targetSocketType} of ${candidate.targetBuildingId} at ${formatVector(candidate.targetPosition, 2)}`;
+  if (candidate.kind === 'edge') {
+    // Named by its end points, which also give the edge's direction
+    const ghost = candidate.ghostEdge
+      ? ` by edge ${formatVector(candidate.ghostEdge[0], 2)}-${formatVector(candidate.ghostEdge[1], 2)}`
+      : '';
+    return `edge ${target}${ghost}`;
+  }
+  const ghost = candidate.ghostPosition ? ` by ${candidate.ghostSocketType} ${formatVector(candidate.ghostPosition, 2)}` : '';
+  return `socket ${target}${ghost}`;
+};
+
+/**
+ * The chosen candidate of a snap calculation, undefined for recordings made
+ * before candidates shared one schema.
+ */
+const getSelectedCandidate = (snap: DebugSnapCalculation): string | null | undefined => {
+  if (snap.selectedCandidate === null) return snap.candidates.every((c) => c.kind) ? null : undefined;
+  const candidate = snap.candidates[snap.selectedCandidate];
+  return candidate?.kind ? describeSnapCandidate(candidate) : undefined;
+};
+
+/**
+ * How a replayed snap differs from the recorded one (empty when it matches).
+ * The chosen candidate is only compared when both sides recorded it.
+ */
+export const compareSnapOutcomes = (recorded: SnapOutcome, replayed: SnapOutcome | null): SnapDifference[] => {
+  if (!replayed) return [{ kind: 'missing', message: 'no snap result' }];
+  const differences: SnapDifference[] = [];
+  if (recorded.selected !== undefined && replayed.selected !== undefined && recorded.selected !== replayed.selected) {
+    differences.push({ kind: 'candidate', message: `candidate ${recorded.selected ?? 'grid'} -> ${replayed.selected ?? 'grid'}` });
+  }
+  const moved = Math.hypot(...recorded.position.map((v, i) => v - replayed.position[i]));
+  if (moved > SNAP_REPLAY_TOLERANCE) {
+    differences.push({ kind: 'position', message: `position ${formatVector(recorded.position)} -> ${formatVector(replayed.position)}` });
+  }
+  if (recorded.rotation.some((v, i) => angleDifference(v, replayed.rotation[i]) > SNAP_REPLAY_TOLERANCE)) {
+    differences.push({ kind: 'rotation', message: `rotation ${formatVector(recorded.rotation)} -> ${formatVector(replayed.rotation)}` });
+  }
+  if (recorded.isValid !== replayed.isValid) {
+    differences.push({ kind: 'validity', message: `valid ${recorded.isValid} -> ${replayed.isValid}` });
+  }
+  return differences;
+};
+
+/**
+ * Terrain and build rules the recording's snaps were calculated with.
+ */
+export const getRecordedPlacementContext = (recording: DebugRecording): PlacementContext => ({
+  terrain: recording.initialState?.terrain ?? null,
+  buildRules: recording.initialState?.buildRules,
+});
+
+/**
+ * Re-run one recorded snap against `buildings` (the layout at that frame).
+ */
+export const replaySnapFrame = (
+  frame: DebugFrame,
+  buildings: BuildingData[],
+  context: PlacementContext
+): SnapOutcome | null => {
+  const snap = frame.snapCalculation;
+  if (!snap) return null;
+  let replayed: DebugSnapCalculation | null = null;
+  const result = calculateSnap(
+    new THREE.Vector3(...snap.rayPoint),
+    buildings,
+    frame.activeType,
+    frame.rotation,
+    (debugInfo) => { replayed = debugInfo; },
+    deserializeSnapTarget(frame.preferredTarget),
+    context
+  );
+  if (!result) return null;
+  return {
+    position: [result.position.x, result.position.y, result.position.z],
+    rotation: [result.rotation.x, result.rotation.y, result.rotation.z],
+    isValid: result.isValid,
+    selected: replayed ? getSelectedCandidate(replayed) : undefined,
+  };
+};
+
+/**
+ * Replay every snap frame in a recording, in order.
+ */
+export const replayRecording = (recording: DebugRecording): SnapReplayResult[] => {
+  const context = getRecordedPlacementContext(recording);
+  // A new array only when the layout changes, so the snap index is reused between frames
+  let buildings = getInitialBuildings(recording);
+  const results: SnapReplayResult[] = [];
+
+  recording.frames.forEach((frame, frameIndex) => {
+    if (frame.buildingAction) buildings = applyBuildingAction(buildings, frame.buildingAction);
+
+    const snap = frame.snapCalculation;
+    if (!snap) return;
+    const recorded: SnapOutcome = {
+      position: snap.finalPosition,
+      rotation: snap.finalRotation,
+      isValid: snap.isValid,
+      selected: getSelectedCandidate(snap),
+    };
+    const replayed = replaySnapFrame(frame, buildings, context);
+    results.push({
+      frameIndex,
+      activeType: frame.activeType,
+      recorded,
+      replayed,
+      differences: compareSnapOutcomes(recorded, replayed),
+    });
+  });
+
+  return results;
+};
+
+/**
+ * Group replay results by piece type, types with the most differing frames first.
+ */
+export const groupSnapDiff = (results: SnapReplayResult[]): SnapDiffGroup[] => {
+  const groups = new Map<BuildingType, SnapDiffGroup>();
+  results.forEach((result) => {
+    let group = groups.get(result.activeType);
+    if (!group) {
+      group = {
+        activeType: result.activeType,
+        snapCount: 0,
+        differing: [],
+        counts: { candidate: 0, position: 0, rotation: 0, validity: 0, missing: 0 },
+      };
+      groups.set(result.activeType, group);
+    }
+    group.snapCount++;
+    if (result.differences.length === 0) return;
+    group.differing.push(result);
+    result.differences.forEach((difference) => group!.counts[difference.kind]++);
+  });
+  return [...groups.values()].sort((a, b) => b.differing.length - a.differing.length || b.snapCount - a.snapCount);
+};
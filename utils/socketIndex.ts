@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { BuildingData, BuildingType, Socket, EdgeSocket, UNIT_SIZE } from '../types';
+
+// =============================================================================
+// Socket Spatial Index
+// =============================================================================
+//
+// calculateSnap runs every frame, so buildings are bucketed by position in a
+// uniform plan (XZ) grid and their world sockets and edges are computed the
+// first time a query reaches them, then cached. Buildings are immutable in the
+// store (every change produces a new object), so `sync` diffs the new array
+// against the cache by id + object identity and only rebuckets pieces that
+// were added or changed (a mostly new layout is rebuilt instead). Syncing the
+// same array twice is free, and indexing a large layout costs a bucket insert
+// per piece rather than a socket transform per socket.
+//
+// A piece's sockets lie within its type's reach of its position (they're a
+// rigid transform of the type's local sockets), so queries only visit pieces
+// within the query radius plus that reach. Results come back in building
+// order (then socket order) so snap scoring ties resolve exactly as they did
+// with a linear scan. The same buckets are the broad phase for the placement
+// collision check.
+
+/** Hash cell edge length; about one snap radius so queries touch few cells */
+const CELL_SIZE = UNIT_SIZE;
+
+interface IndexedPiece {
+  building: BuildingData;
+  order: number;                // Index of the building in the last synced array
+  sockets: Socket[] | null;     // World sockets, computed on first query
+  edges: EdgeSocket[] | null;   // World edges, computed on first query
+  planCell: number;
+}
+
+interface QueryHit<T> {
+  order: number;
+  slot: number;                 // Index of the item within its piece
+  item: T;
+}
+
+export interface SocketIndex {
+  /** Bring the index up to date with a buildings array */
+  sync: (buildings: BuildingData[]) => void;
+  /** World point sockets within `radius` of `point` */
+  querySockets: (point: THREE.Vector3, radius: number) => Socket[];
+  /** World edge sockets whose center is within `radius` of `point` */
+  queryEdges: (point: THREE.Vector3, radius: number) => EdgeSocket[];
+  /** Buildings whose position is within `radius` of `point` in plan (XZ), in building order */
+  queryBuildings: (point: THREE.Vector3, radius: number) => BuildingData[];
+  /** Indexed building by id (as of the last sync) */
+  getBuilding: (id: string) => BuildingData | undefined;
+  /** Number of buildings currently indexed */
+  size: () => number;
+}
+
+// Cells are keyed by number rather than string to keep syncs of large layouts
+// light. Coordinates wrap every CELL_WRAP cells; far apart cells that share a
+// key only share a bucket, as every hit is distance-checked.
+const CELL_WRAP = 1 << 16;
+const cellCoord = (value: number) => Math.floor(value / CELL_SIZE);
+const wrapCoord = (cell: number) => ((cell % CELL_WRAP) + CELL_WRAP) % CELL_WRAP;
+const planCellKey = (x: number, z: number) => wrapCoord(x) * CELL_WRAP + wrapCoord(z);
+
+/** Slack on a type's reach for float error in the world transform */
+const REACH_EPSILON = 1e-6;
+
+const socketPosition = (s: Socket) => s.position;
+const edgeCenter = (e: EdgeSocket) => e.center;
+
+/**
+ * Create an empty socket index. `getSockets`/`getEdges` compute a building's
+ * world sockets (injected to keep this module free of the geometry code).
+ */
+export const createSocketIndex = (
+  getSockets: (building: BuildingData) => Socket[],
+  getEdges: (building: BuildingData) => EdgeSocket[]
+): SocketIndex => {
+  const pieces = new Map<string, IndexedPiece>();
+  const planCells = new Map<number, IndexedPiece[]>();
+  // Farthest socket or edge center from the piece position, per type
+  const typeReach = new Map<BuildingType, number>();
+  let maxReach = 0;
+  let lastSynced: BuildingData[] | null = null;
+
+  const ensureSockets = (piece: IndexedPiece) => {
+    if (!piece.sockets) piece.sockets = getSockets(piece.building);
+    if (!piece.edges) piece.edges = getEdges(piece.building);
+  };
+
+  // Measured on the first piece of each type seen, whose sockets are then kept
+  const measureReach = (piece: IndexedPiece) => {
+    if (typeReach.has(piece.building.type)) return;
+    ensureSockets(piece);
+    const [x, y, z] = piece.building.position;
+    const origin = new THREE.Vector3(x, y, z);
+    let reach = 0;
+    piece.sockets!.forEach((s) => { reach = Math.max(reach, s.position.distanceTo(origin)); });
+    piece.edges!.forEach((e) => { reach = Math.max(reach, e.center.distanceTo(origin)); });
+    reach += REACH_EPSILON;
+    typeReach.set(piece.building.type, reach);
+    maxReach = Math.max(maxReach, reach);
+  };
+
+  const removePiece = (piece: IndexedPiece) => {
+    const remaining = planCells.get(piece.planCell)?.filter((other) => other !== piece) ?? [];
+    if (remaining.length > 0) planCells.set(piece.planCell, remaining);
+    else planCells.delete(piece.planCell);
+    pieces.delete(piece.building.id);
+  };
+
+  const addPiece = (building: BuildingData, order: number) => {
+    const piece: IndexedPiece = {
+      building,
+      order,
+      sockets: null,
+      edges: null,
+      planCell: planCellKey(cellCoord(building.position[0]), cellCoord(building.position[2])),
+    };
+    measureReach(piece);
+    const bucket = planCells.get(piece.planCell);
+    if (bucket) bucket.push(piece);
+    else planCells.set(piece.planCell, [piece]);
+    pieces.set(building.id, piece);
+  };
+
+  const sync = (buildings: BuildingData[]) => {
+    if (buildings === lastSynced) return;
+    lastSynced = buildings;
+
+    // A mostly new layout (load, undo of a big edit) is cheaper to rebuild than to diff
+    const kept = buildings.reduce((count, b) => count + (pieces.get(b.id)?.building === b ? 1 : 0), 0);
+    if (kept < pieces.size / 2) {
+      pieces.clear();
+      planCells.clear();
+    }
+
+    const seen = new Set<string>();
+    buildings.forEach((building, order) => {
+      seen.add(building.id);
+      const existing = pieces.get(building.id);
+      if (existing && existing.building === building) {
+        existing.order = order;
+        return;
+      }
+      if (existing) removePiece(existing);
+      addPiece(building, order);
+    });
+
+    for (const piece of [...pieces.values()]) {
+      if (!seen.has(piece.building.id)) removePiece(piece);
+    }
+  };
+
+  /** Pieces whose position is within `radius` of `point` in plan, unordered */
+  const forEachPieceNear = (point: THREE.Vector3, radius: number, visit: (piece: IndexedPiece, planDistance: number) => void) => {
+    for (let x = cellCoord(point.x - radius); x <= cellCoord(point.x + radius); x++) {
+      for (let z = cellCoord(point.z - radius); z <= cellCoord(point.z + radius); z++) {
+        for (const piece of planCells.get(planCellKey(x, z)) ?? []) {
+          const [px, , pz] = piece.building.position;
+          const planDistance = Math.hypot(px - point.x, pz - point.z);
+          if (planDistance <= radius) visit(piece, planDistance);
+        }
+      }
+    }
+  };
+
+  const queryItems = <T>(
+    point: THREE.Vector3,
+    radius: number,
+    itemsOf: (piece: IndexedPiece) => T[],
+    positionOf: (item: T) => THREE.Vector3
+  ): T[] => {
+    const hits: QueryHit<T>[] = [];
+    forEachPieceNear(point, radius + maxReach, (piece, planDistance) => {
+      const reach = radius + typeReach.get(piece.building.type)!;
+      if (planDistance > reach || Math.abs(piece.building.position[1] - point.y) > reach) return;
+      ensureSockets(piece);
+      itemsOf(piece).forEach((item, slot) => {
+        if (positionOf(item).distanceTo(point) <= radius) hits.push({ order: piece.order, slot, item });
+      });
+    });
+    hits.sort((a, b) => a.order - b.order || a.slot - b.slot);
+    return hits.map((hit) => hit.item);
+  };
+
+  return {
+    sync,
+    querySockets: (point, radius) => queryItems(point, radius, (piece) => piece.sockets!, socketPosition),
+    queryEdges: (point, radius) => queryItems(point, radius, (piece) => piece.edges!, edgeCenter),
+    queryBuildings: (point, radius) => {
+      const hits: IndexedPiece[] = [];
+      forEachPieceNear(point, radius, (piece) => hits.push(piece));
+      return hits.sort((a, b) => a.order - b.order).map((piece) => piece.building);
+    },
+    getBuilding: (id) => pieces.get(id)?.building,
+    size: () => pieces.size,
+  };
+};
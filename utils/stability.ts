@@ -0,0 +1,231 @@
+import * as THREE from 'three';
+import { BuildingData, SocketType, SOCKET_COMPATIBILITY } from '../types';
+import { getBuildingDef } from '../data/BuildingRegistry';
+import { getWorldSockets, getWorldEdgeSockets } from './geometry';
+import { getFootprintGroundRange } from './terrain';
+import type { Terrain } from './terrain';
+
+// =============================================================================
+// Stability Model
+// =============================================================================
+//
+// Pieces form a support graph: two pieces are connected when they have
+// compatible sockets at the same world position. Ground-level foundations are
+// anchors with full stability (on terrain: foundations whose base lies between
+// the lowest and highest ground under their footprint). Stability flows from
+// a supporter to pieces at the same height or above it, losing a fixed amount
+// per hop:
+//   - vertical hops (supporter is lower) lose little, so walls stack well
+//   - horizontal hops (same height) lose more, so overhangs fall off quickly
+// A piece is stable with its best path to the ground; when no path
+// has stability left, it is unsupported.
+
+/** Stability of a ground-level foundation */
+export const MAX_STABILITY = 100;
+const VERTICAL_LOSS = 10;
+const HORIZONTAL_LOSS = 25;
+
+/** Foundations whose base is within this height of the ground rest on it */
+const GROUND_TOLERANCE = 0.05;
+/** Max distance between two sockets for them to count as connected */
+const CONNECTION_TOLERANCE = 0.15;
+/** Height difference below which two pieces count as level */
+const LEVEL_TOLERANCE = 0.1;
+
+/**
+ * Socket pairs that transfer load: the snapping rules plus floors resting on
+ * wall tops (upper floors are placed by height, not by socket snapping).
+ */
+const supportsConnection = (a: SocketType, b: SocketType): boolean => {
+  if (SOCKET_COMPATIBILITY[a]?.includes(b)) return true;
+  return (a === SocketType.WALL_TOP && b === SocketType.FOUNDATION_EDGE)
+    || (a === SocketType.FOUNDATION_EDGE && b === SocketType.WALL_TOP);
+};
+
+interface ConnectionPoint {
+  position: THREE.Vector3;
+  socketType: SocketType;
+  buildingId: string;
+}
+
+export interface StabilityReport {
+  stability: Map<string, number>;  // 0..MAX_STABILITY per building id
+  unsupportedIds: string[];
+}
+
+const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+interface QueueEntry {
+  id: string;
+  stability: number;
+}
+
+/**
+ * Binary max-heap on stability for the Dijkstra-style propagation.
+ */
+const createMaxHeap = () => {
+  const items: QueueEntry[] = [];
+
+  const swap = (i: number, j: number) => {
+    const tmp = items[i];
+    items[i] = items[j];
+    items[j] = tmp;
+  };
+
+  const push = (entry: QueueEntry) => {
+    items.push(entry);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].stability >= items[i].stability) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const pop = (): QueueEntry | undefined => {
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < items.length && items[left].stability > items[largest].stability) largest = left;
+        if (right < items.length && items[right].stability > items[largest].stability) largest = right;
+        if (largest === i) break;
+        swap(i, largest);
+        i = largest;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop, size: () => items.length };
+};
+
+// Buildings arrays are immutable, so reports are cached per array (and terrain)
+const reportCache = new WeakMap<BuildingData[], { terrain: Terrain | null; report: StabilityReport }>();
+
+/**
+ * Build the undirected adjacency list of socket connections between pieces.
+ * Sockets are bucketed on a coarse grid so only nearby sockets are compared.
+ */
+export const buildSupportGraph = (buildings: BuildingData[]): Map<string, Set<string>> => {
+  const graph = new Map<string, Set<string>>(buildings.map((b) => [b.id, new Set<string>()]));
+  const cells = new Map<string, ConnectionPoint[]>();
+  const cellSize = CONNECTION_TOLERANCE * 2;
+
+  const points: ConnectionPoint[] = [];
+  for (const b of buildings) {
+    getWorldSockets(b).forEach((s) => points.push({ position: s.position, socketType: s.socketType, buildingId: b.id }));
+    // Edge centers cover foundation edges that have no matching point socket (e.g. curved pieces)
+    getWorldEdgeSockets(b).forEach((e) => points.push({ position: e.center, socketType: e.socketType, buildingId: b.id }));
+  }
+
+  for (const point of points) {
+    const cx = Math.floor(point.position.x / cellSize);
+    const cy = Math.floor(point.position.y / cellSize);
+    const cz = Math.floor(point.position.z / cellSize);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const other of cells.get(cellKey(cx + dx, cy + dy, cz + dz)) ?? []) {
+            if (other.buildingId === point.buildingId) continue;
+            if (!supportsConnection(point.socketType, other.socketType)) continue;
+            if (point.position.distanceTo(other.position) > CONNECTION_TOLERANCE) continue;
+            graph.get(point.buildingId)!.add(other.buildingId);
+            graph.get(other.buildingId)!.add(point.buildingId);
+          }
+        }
+      }
+    }
+
+    const key = cellKey(cx, cy, cz);
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(point);
+    else cells.set(key, [point]);
+  }
+
+  return graph;
+};
+
+const isGroundFoundation = (b: BuildingData, terrain?: Terrain | null) => {
+  if (getBuildingDef(b.type).category !== 'foundation') return false;
+  if (!terrain) return Math.abs(b.position[1]) <= GROUND_TOLERANCE;
+  const [minGround, maxGround] = getFootprintGroundRange(terrain, b.type, b.position, b.rotation[1]);
+  return b.position[1] >= minGround - GROUND_TOLERANCE && b.position[1] <= maxGround + GROUND_TOLERANCE;
+};
+
+/**
+ * Compute stability for every piece by propagating the best (highest)
+ * stability outward from the ground, Dijkstra style. The last report per
+ * buildings array is cached, so the overlay and cascade removal share it.
+ */
+export const computeStability = (buildings: BuildingData[], terrain?: Terrain | null): StabilityReport => {
+  const cached = reportCache.get(buildings);
+  if (cached && cached.terrain === (terrain ?? null)) return cached.report;
+
+  const graph = buildSupportGraph(buildings);
+  const byId = new Map(buildings.map((b) => [b.id, b]));
+  const stability = new Map<string, number>(buildings.map((b) => [b.id, 0]));
+
+  const queue = createMaxHeap();
+  for (const b of buildings) {
+    if (isGroundFoundation(b, terrain)) {
+      stability.set(b.id, MAX_STABILITY);
+      queue.push({ id: b.id, stability: MAX_STABILITY });
+    }
+  }
+
+  // Stale entries (superseded by a better path) are skipped when popped
+  const settled = new Set<string>();
+  while (queue.size() > 0) {
+    const { id } = queue.pop()!;
+    if (settled.has(id)) continue;
+    settled.add(id);
+
+    const supporter = byId.get(id)!;
+    const supporterStability = stability.get(id)!;
+    for (const neighborId of graph.get(id) ?? []) {
+      if (settled.has(neighborId)) continue;
+      const neighbor = byId.get(neighborId)!;
+      const heightDiff = neighbor.position[1] - supporter.position[1];
+      // Pieces can't hang from something above them
+      if (heightDiff < -LEVEL_TOLERANCE) continue;
+
+      const loss = heightDiff > LEVEL_TOLERANCE ? VERTICAL_LOSS : HORIZONTAL_LOSS;
+      const candidate = supporterStability - loss;
+      if (candidate > stability.get(neighborId)!) {
+        stability.set(neighborId, candidate);
+        queue.push({ id: neighborId, stability: candidate });
+      }
+    }
+  }
+
+  const report = {
+    stability,
+    unsupportedIds: buildings.filter((b) => stability.get(b.id)! <= 0).map((b) => b.id),
+  };
+  reportCache.set(buildings, { terrain: terrain ?? null, report });
+  return report;
+};
+
+/**
+ * Pieces that would lose all support if `removedIds` were demolished,
+ * excluding pieces that were already unsupported beforehand. The
+ * pre-removal report usually comes from the cache (the overlay computed it).
+ */
+export const findCascadeRemovals = (
+  buildings: BuildingData[],
+  removedIds: string[],
+  terrain?: Terrain | null
+): string[] => {
+  const removed = new Set(removedIds);
+  const alreadyUnsupported = new Set(computeStability(buildings, terrain).unsupportedIds);
+  const remaining = buildings.filter((b) => !removed.has(b.id));
+  return computeStability(remaining, terrain).unsupportedIds.filter((id) => !alreadyUnsupported.has(id));
+};
@@ -0,0 +1,244 @@
+import { BuildingData, BuildingType, UNIT_SIZE } from '../types';
+import { getBuildingDef } from '../data/BuildingRegistry';
+
+// =============================================================================
+// Terrain Heightmap
+// =============================================================================
+//
+// An imported heightmap stretched over the whole ground area. Heights are
+// samples on an evenly spaced grid, interpolated bilinearly in between.
+// Pieces placed on the ground rest on the highest point under their
+// footprint; a foundation needs pillars down to the lowest point, which is
+// reported but not modelled as separate pieces.
+
+/** Side length of the ground the heightmap covers (matches the ground plane) */
+export const TERRAIN_SIZE = 1000;
+/** Max samples per side: one per ground grid line */
+export const MAX_TERRAIN_SAMPLES = TERRAIN_SIZE / UNIT_SIZE + 1;
+/** Height of a white pixel when an image heightmap is imported */
+export const DEFAULT_IMAGE_MAX_HEIGHT = 20;
+/** Pillars shorter than this are not worth reporting */
+export const PILLAR_REPORT_MIN = 0.1;
+
+const TERRAIN_STORAGE_KEY = 'dune-terrain';
+
+export interface Terrain {
+  name: string;
+  columns: number;    // Samples along X, from -X to +X
+  rows: number;       // Samples along Z, from -Z to +Z
+  heights: number[];  // Row-major, rows * columns
+}
+
+export interface TerrainParseResult {
+  terrain: Terrain | null;
+  errors: string[];
+}
+
+/** Pillar report for one foundation */
+export interface FoundationPillar {
+  buildingId: string;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Heights are kept to the centimetre, which also keeps stored terrain small
+const roundHeight = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Ground height at a world XZ point. Points outside the ground use the nearest edge.
+ */
+export const getTerrainHeight = (terrain: Terrain, x: number, z: number): number => {
+  const half = TERRAIN_SIZE / 2;
+  const gx = clamp(((x + half) / TERRAIN_SIZE) * (terrain.columns - 1), 0, terrain.columns - 1);
+  const gz = clamp(((z + half) / TERRAIN_SIZE) * (terrain.rows - 1), 0, terrain.rows - 1);
+  const c0 = Math.floor(gx);
+  const r0 = Math.floor(gz);
+  const c1 = Math.min(c0 + 1, terrain.columns - 1);
+  const r1 = Math.min(r0 + 1, terrain.rows - 1);
+  const tx = gx - c0;
+  const tz = gz - r0;
+
+  const at = (r: number, c: number) => terrain.heights[r * terrain.columns + c];
+  const top = at(r0, c0) * (1 - tx) + at(r0, c1) * tx;
+  const bottom = at(r1, c0) * (1 - tx) + at(r1, c1) * tx;
+  return top * (1 - tz) + bottom * tz;
+};
+
+/**
+ * Lowest and highest sample of a terrain.
+ */
+export const getTerrainRange = (terrain: Terrain): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const h of terrain.heights) {
+    if (h < min) min = h;
+    if (h > max) max = h;
+  }
+  return [min, max];
+};
+
+/**
+ * Lowest and highest ground under a piece's footprint (collider corners and center).
+ */
+export const getFootprintGroundRange = (
+  terrain: Terrain,
+  type: BuildingType,
+  position: [number, number, number],
+  rotationY: number
+): [number, number] => {
+  const [x, , z] = position;
+  const cos = Math.cos(rotationY);
+  const sin = Math.sin(rotationY);
+  let min = getTerrainHeight(terrain, x, z);
+  let max = min;
+  for (const polygon of getBuildingDef(type).collider.polygons) {
+    for (const [px, pz] of polygon) {
+      const h = getTerrainHeight(terrain, x + px * cos + pz * sin, z - px * sin + pz * cos);
+      if (h < min) min = h;
+      if (h > max) max = h;
+    }
+  }
+  return [min, max];
+};
+
+/**
+ * Pillar height a foundation needs to reach the lowest ground under it (0 for other pieces).
+ */
+export const getPillarHeight = (terrain: Terrain, building: BuildingData): number => {
+  if (getBuildingDef(building.type).category !== 'foundation') return 0;
+  const [minGround] = getFootprintGroundRange(terrain, building.type, building.position, building.rotation[1]);
+  return Math.max(0, building.position[1] - minGround);
+};
+
+/**
+ * Foundations standing on pillars of at least `minHeight`, tallest first.
+ */
+export const findFoundationPillars = (terrain: Terrain, buildings: BuildingData[], minHeight: number): FoundationPillar[] => {
+  return buildings
+    .map((b) => ({ buildingId: b.id, height: getPillarHeight(terrain, b) }))
+    .filter((p) => p.height >= minHeight)
+    .sort((a, b) => b.height - a.height);
+};
+
+/**
+ * Shrink a height grid to at most MAX_TERRAIN_SAMPLES per side by resampling.
+ */
+const limitSamples = (terrain: Terrain): Terrain => {
+  if (terrain.columns <= MAX_TERRAIN_SAMPLES && terrain.rows <= MAX_TERRAIN_SAMPLES) return terrain;
+  const columns = Math.min(terrain.columns, MAX_TERRAIN_SAMPLES);
+  const rows = Math.min(terrain.rows, MAX_TERRAIN_SAMPLES);
+  const heights: number[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const x = (c / (columns - 1)) * TERRAIN_SIZE - TERRAIN_SIZE / 2;
+      const z = (r / (rows - 1)) * TERRAIN_SIZE - TERRAIN_SIZE / 2;
+      heights.push(roundHeight(getTerrainHeight(terrain, x, z)));
+    }
+  }
+  return { name: terrain.name, columns, rows, heights };
+};
+
+/**
+ * Validate a JSON heightmap: `{ "name"?: string, "heights": number[][] }`,
+ * rows from -Z to +Z and columns from -X to +X, in world units.
+ */
+export const parseHeightmapJson = (data: unknown, fallbackName: string): TerrainParseResult => {
+  const errors: string[] = [];
+  const heights = (data as { heights?: unknown } | null)?.heights;
+  if (!Array.isArray(heights) || heights.length < 2) {
+    return { terrain: null, errors: ['heights: expected an array of at least 2 rows'] };
+  }
+
+  const columns = Array.isArray(heights[0]) ? heights[0].length : 0;
+  if (columns < 2) {
+    return { terrain: null, errors: ['heights[0]: expected a row of at least 2 numbers'] };
+  }
+
+  const flat: number[] = [];
+  heights.forEach((row, r) => {
+    if (!Array.isArray(row) || row.length !== columns) {
+      errors.push(`heights[${r}]: expected ${columns} numbers like the first row`);
+      return;
+    }
+    row.forEach((h, c) => {
+      if (typeof h !== 'number' || !Number.isFinite(h)) {
+        errors.push(`heights[${r}][${c}]: expected a finite number, got ${String(h)}`);
+        return;
+      }
+      flat.push(roundHeight(h));
+    });
+  });
+  if (errors.length > 0) return { terrain: null, errors };
+
+  const name = (data as { name?: unknown }).name;
+  return {
+    terrain: limitSamples({
+      name: typeof name === 'string' && name ? name : fallbackName,
+      columns,
+      rows: heights.length,
+      heights: flat,
+    }),
+    errors,
+  };
+};
+
+/**
+ * Read an image heightmap (PNG etc.). Brightness maps linearly from 0 (black)
+ * to `maxHeight` (white); the top of the image is -Z.
+ */
+export const readHeightmapImage = async (file: Blob, name: string, maxHeight: number): Promise<Terrain> => {
+  const bitmap = await createImageBitmap(file);
+  const columns = clamp(bitmap.width, 2, MAX_TERRAIN_SAMPLES);
+  const rows = clamp(bitmap.height, 2, MAX_TERRAIN_SAMPLES);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.drawImage(bitmap, 0, 0, columns, rows);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, columns, rows);
+  const heights: number[] = [];
+  for (let i = 0; i < columns * rows; i++) {
+    const brightness = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / (3 * 255);
+    heights.push(roundHeight(brightness * maxHeight));
+  }
+  return { name, columns, rows, heights };
+};
+
+/**
+ * Load the terrain from browser storage (null if none is stored or it's unreadable).
+ */
+export const loadTerrain = (): Terrain | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem(TERRAIN_STORAGE_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    return parsed && Array.isArray(parsed.heights) && parsed.heights.length === parsed.columns * parsed.rows ? parsed : null;
+  } catch (e) {
+    console.error('Failed to load terrain', e);
+    return null;
+  }
+};
+
+/**
+ * Persist the terrain to browser storage, or clear it with null.
+ * Returns false if the write failed (e.g. quota exceeded).
+ */
+export const saveTerrain = (terrain: Terrain | null): boolean => {
+  try {
+    if (terrain) {
+      localStorage.setItem(TERRAIN_STORAGE_KEY, JSON.stringify(terrain));
+    } else {
+      localStorage.removeItem(TERRAIN_STORAGE_KEY);
+    }
+    return true;
+  } catch (e) {
+    console.error('Failed to save terrain', e);
+    return false;
+  }
+};